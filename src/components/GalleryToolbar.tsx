@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Toggle } from "@/components/ui/toggle";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarIcon, Heart, Search, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useStylePresets } from "@/hooks/use-style-presets";
+import { useGenerationTags } from "@/hooks/use-generation-tags";
+import {
+  GALLERY_SORTS,
+  GallerySort,
+  isFiltered,
+  RATING_FILTERS,
+  SOURCE_FILTERS,
+  SourceFilter,
+  STATUS_FILTERS,
+  StatusFilter,
+  useGalleryFilters,
+} from "@/hooks/use-gallery-filters";
+
+// Select value standing for "no filter"
+const ANY = "any";
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_LABELS: Record<StatusFilter, string> = {
+  completed: "Completed",
+  in_progress: "In progress",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const SOURCE_LABELS: Record<SourceFilter, string> = {
+  text: "Text to image",
+  edit: "Edited upload",
+};
+
+const SORT_LABELS: Record<GallerySort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+};
+
+const DAY_FORMAT = "yyyy-MM-dd";
+
+const rangeLabel = (from: string | null, to: string | null) => {
+  const label = (day: string) => format(parseISO(day), "MMM d, yyyy");
+  if (from && to) return from === to ? label(from) : `${label(from)} – ${label(to)}`;
+  if (from) return `Since ${label(from)}`;
+  if (to) return `Until ${label(to)}`;
+  return "Any date";
+};
+
+// Search, filters and sort for the gallery, read from and written to the URL
+const GalleryToolbar = () => {
+  const { filters, setFilters, clearFilters } = useGalleryFilters();
+  const [search, setSearch] = useState(filters.search);
+  const { styles, ownStyles, sharedStyles } = useStylePresets();
+  const { tags } = useGenerationTags();
+
+  // Follow the URL when it changes elsewhere, e.g. back navigation or Clear
+  useEffect(() => setSearch(filters.search), [filters.search]);
+
+  useEffect(() => {
+    if (search === filters.search) return;
+    const timeout = setTimeout(() => setFilters({ search }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, filters.search, setFilters]);
+
+  const range: DateRange | undefined =
+    filters.from || filters.to
+      ? { from: filters.from ? parseISO(filters.from) : undefined, to: filters.to ? parseISO(filters.to) : undefined }
+      : undefined;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-52">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          type="search"
+          placeholder="Search prompts..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9 glass border-border/50"
+          aria-label="Search prompts"
+        />
+      </div>
+
+      <Select value={filters.style ?? ANY} onValueChange={(value) => setFilters({ style: value === ANY ? null : value })}>
+        <SelectTrigger className="w-40 glass border-border/50" aria-label="Style">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All styles</SelectItem>
+          <SelectSeparator />
+          {[...styles, ...ownStyles, ...sharedStyles].map((preset) => (
+            <SelectItem key={preset.slug} value={preset.slug}>
+              {preset.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.status ?? ANY}
+        onValueChange={(value) => setFilters({ status: value === ANY ? null : (value as StatusFilter) })}
+      >
+        <SelectTrigger className="w-36 glass border-border/50" aria-label="Status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any status</SelectItem>
+          {STATUS_FILTERS.map((status) => (
+            <SelectItem key={status} value={status}>
+              {STATUS_LABELS[status]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.source ?? ANY}
+        onValueChange={(value) => setFilters({ source: value === ANY ? null : (value as SourceFilter) })}
+      >
+        <SelectTrigger className="w-36 glass border-border/50" aria-label="Source">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any source</SelectItem>
+          {SOURCE_FILTERS.map((source) => (
+            <SelectItem key={source} value={source}>
+              {SOURCE_LABELS[source]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Toggle
+        variant="outline"
+        className="glass border-border/50"
+        pressed={filters.favourites}
+        onPressedChange={(favourites) => setFilters({ favourites })}
+        aria-label="Favourites only"
+        title="Favourites only"
+      >
+        <Heart className={cn("w-4 h-4", filters.favourites && "fill-primary text-primary")} />
+      </Toggle>
+
+      <Select
+        value={filters.minRating ? String(filters.minRating) : ANY}
+        onValueChange={(value) => setFilters({ minRating: value === ANY ? null : Number(value) })}
+      >
+        <SelectTrigger className="w-32 glass border-border/50" aria-label="Rating">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any rating</SelectItem>
+          {RATING_FILTERS.map((rating) => (
+            <SelectItem key={rating} value={String(rating)}>
+              {rating === 5 ? "5 stars" : `${rating}+ stars`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Keep a tag from a shared link selectable even if the list hasn't got it */}
+      {(tags.length > 0 || filters.tag) && (
+        <Select value={filters.tag ?? ANY} onValueChange={(value) => setFilters({ tag: value === ANY ? null : value })}>
+          <SelectTrigger className="w-36 glass border-border/50" aria-label="Tag">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any tag</SelectItem>
+            <SelectSeparator />
+            {[...new Set([...tags, ...(filters.tag ? [filters.tag] : [])])].map((tag) => (
+              <SelectItem key={tag} value={tag}>
+                {tag}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn("glass border-border/50 justify-start font-normal", !range && "text-muted-foreground")}
+          >
+            <CalendarIcon className="w-4 h-4 mr-2" />
+            {rangeLabel(filters.from, filters.to)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={(selected) =>
+              setFilters({
+                from: selected?.from ? format(selected.from, DAY_FORMAT) : null,
+                to: selected?.to ? format(selected.to, DAY_FORMAT) : null,
+              })
+            }
+            disabled={{ after: new Date() }}
+            numberOfMonths={2}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+
+      <Select value={filters.sort} onValueChange={(value) => setFilters({ sort: value as GallerySort })}>
+        <SelectTrigger className="w-36 glass border-border/50" aria-label="Sort">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {GALLERY_SORTS.map((sort) => (
+            <SelectItem key={sort} value={sort}>
+              {SORT_LABELS[sort]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isFiltered(filters) && (
+        <Button variant="ghost" size="sm" onClick={clearFilters}>
+          <X className="w-4 h-4 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default GalleryToolbar;
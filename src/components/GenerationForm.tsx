@@ -1,132 +1,302 @@
-import { useState } from "react";
+import { SetStateAction, useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Sparkles, Loader2, Upload, X } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Sparkles, Loader2, Upload, BookmarkPlus, Shuffle, X } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
+import { CustomStyle, StylePreset, useStylePresets } from "@/hooks/use-style-presets";
+import { GenerationFormState, GenerationFormValues } from "@/hooks/use-generation-form";
+import SaveStyleDialog from "@/components/SaveStyleDialog";
+import ReferenceImageList, { ReferenceUpload } from "@/components/ReferenceImageList";
+import InpaintEditor, { InpaintResult } from "@/components/InpaintEditor";
+import {
+  AspectRatio,
+  ASPECT_RATIOS,
+  BATCH_MAX_SIZE,
+  CONTRACT_VERSION,
+  EditMode,
+  EDIT_MODES,
+  FieldErrors,
+  generateImageRequestSchema,
+  generationParametersSchema,
+  IMAGE_MAX_BYTES,
+  IMAGE_MIME_TYPES,
+  MASK_EDIT_MODES,
+  NEGATIVE_PROMPT_MAX_LENGTH,
+  PROMPT_MAX_LENGTH,
+  REFERENCE_IMAGES_MAX,
+  resolveDimensions,
+  RESOLUTIONS,
+  toFieldErrors,
+} from "@/lib/generation-contract";
+import { describeGenerationError } from "@/lib/generation-errors";
+import { submitGeneration } from "@/lib/generations";
 
-const STYLE_PRESETS = [
-  { value: "cinematic", label: "🎬 Cinematic" },
-  { value: "anime", label: "🎌 Anime" },
-  { value: "realistic", label: "📸 Realistic" },
-  { value: "fantasy", label: "🧙‍♂️ Fantasy" },
-  { value: "cyberpunk", label: "🤖 Cyberpunk" },
-  { value: "watercolor", label: "🎨 Watercolor" },
-  { value: "oil-painting", label: "🖼️ Oil Painting" },
-  { value: "3d-render", label: "💎 3D Render" },
-];
+const styleLabel = (preset: StylePreset) =>
+  preset.emoji ? `${preset.emoji} ${preset.label}` : preset.label;
+
+const ASPECT_RATIO_LABELS: Record<AspectRatio, string> = {
+  "1:1": "Square (1:1)",
+  "4:3": "Standard (4:3)",
+  "3:2": "Photo (3:2)",
+  "16:9": "Widescreen (16:9)",
+  "9:16": "Portrait (9:16)",
+  custom: "Custom",
+};
+
+const EDIT_MODE_OPTIONS: Record<EditMode, { label: string; hint: string }> = {
+  style_transfer: { label: "Style transfer", hint: "Keep the subject and composition, change the look" },
+  instruct: { label: "Edit by instruction", hint: "Describe the change you want, e.g. \"add a hat\"" },
+  variation: { label: "Variation", hint: "A new take on the same subject and mood" },
+  reference: { label: "Loose reference", hint: "Use the photo only as inspiration" },
+  inpaint: { label: "Inpaint", hint: "Repaint only the masked area" },
+  outpaint: { label: "Outpaint", hint: "Extend the image beyond its borders" },
+};
+
+const FieldError = ({ messages }: { messages?: string[] }) =>
+  messages?.length ? <p className="text-sm text-destructive">{messages[0]}</p> : null;
 
 interface GenerationFormProps {
+  // Lifted so the page can fill the form in, e.g. to remix a generation
+  form: GenerationFormState;
   onGenerate: () => void;
 }
 
-const GenerationForm = ({ onGenerate }: GenerationFormProps) => {
-  const [prompt, setPrompt] = useState("");
-  const [style, setStyle] = useState("cinematic");
+const GenerationForm = ({ form, onGenerate }: GenerationFormProps) => {
+  const {
+    values: { prompt, negativePrompt, style, references, mask, aspectRatio, customRatio, resolution, imageCount, editMode, strength, remixOf },
+    update,
+  } = form;
+  const setter = <K extends keyof GenerationFormValues>(key: K) =>
+    (value: SetStateAction<GenerationFormValues[K]>) => update(key, value);
+  const setPrompt = setter("prompt");
+  const setNegativePrompt = setter("negativePrompt");
+  const setStyle = setter("style");
+  const setReferences = setter("references");
+  const setMask = setter("mask");
+  const setAspectRatio = setter("aspectRatio");
+  const setCustomRatio = setter("customRatio");
+  const setResolution = setter("resolution");
+  const setImageCount = setter("imageCount");
+  const setEditMode = setter("editMode");
+  const setStrength = setter("strength");
+  const setRemixOf = setter("remixOf");
   const [loading, setLoading] = useState(false);
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-  const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
+  // Image the mask editor is open for
+  const [maskTarget, setMaskTarget] = useState<string | null>(null);
+  const [saveStyleOpen, setSaveStyleOpen] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const formRef = useRef<HTMLFormElement>(null);
+  const navigate = useNavigate();
+  const { styles, ownStyles, sharedStyles, loading: stylesLoading, reload: reloadStyles } = useStylePresets();
 
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Fall back to the first enabled preset if the selected style disappeared
+  useEffect(() => {
+    if (stylesLoading || styles.length === 0) return;
+    if (![...styles, ...ownStyles, ...sharedStyles].some((preset) => preset.slug === style)) {
+      update("style", styles[0].slug);
+    }
+  }, [styles, ownStyles, sharedStyles, stylesLoading, style, update]);
 
-    // Validate file type
-    const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    if (!validTypes.includes(file.type)) {
-      toast.error("Invalid file type. Please upload a JPG, PNG, or WEBP image.");
-      return;
+  const customAspectRatio =
+    aspectRatio === "custom"
+      ? { width: Number(customRatio.width), height: Number(customRatio.height) }
+      : undefined;
+  const subjectId = references.find((reference) => reference.role === "subject")?.id;
+  const hasSubject = !!subjectId;
+  const referenceImages = references.length
+    ? references.map(({ image, role }) => ({ image, role }))
+    : undefined;
+  const parameters = {
+    aspectRatio,
+    customAspectRatio,
+    resolution,
+    ...(hasSubject && { editMode: mask ? ("inpaint" as const) : editMode, strength }),
+  };
+  const derivation = remixOf ? { parentId: remixOf.id, derivationType: "remix" as const } : {};
+  const dimensions = generationParametersSchema.safeParse(parameters).success ? resolveDimensions(parameters) : null;
+
+  // Custom styles can carry their own size defaults; apply them on selection
+  const applyStyleDefaults = (preset: CustomStyle | undefined) => {
+    const defaults = generationParametersSchema.safeParse(preset?.default_parameters ?? {});
+    if (!defaults.success) return;
+    if (defaults.data.aspectRatio) setAspectRatio(defaults.data.aspectRatio);
+    if (defaults.data.customAspectRatio) {
+      setCustomRatio({
+        width: String(defaults.data.customAspectRatio.width),
+        height: String(defaults.data.customAspectRatio.height),
+      });
     }
+    if (defaults.data.resolution) setResolution(defaults.data.resolution);
+  };
 
-    // Validate file size (10MB)
-    const maxSize = 10 * 1024 * 1024;
-    if (file.size > maxSize) {
-      toast.error("File size must be less than 10MB.");
-      return;
+  const selectedStyle = [...styles, ...ownStyles, ...sharedStyles].find((preset) => preset.slug === style);
+
+  const handleStyleChange = (slug: string) => {
+    setStyle(slug);
+    applyStyleDefaults([...ownStyles, ...sharedStyles].find((preset) => preset.slug === slug));
+  };
+
+  // A mask only applies while its image is still the one being edited
+  useEffect(() => {
+    if (mask && mask.referenceId !== subjectId) update("mask", null);
+  }, [mask, subjectId, update]);
+
+  // The masked image becomes the edited subject
+  const handleMaskApplied = ({ mask: dataUrl }: InpaintResult) => {
+    const target = references.find((reference) => reference.id === maskTarget);
+    if (!target) return;
+    setReferences([{ ...target, role: "subject" }, ...references.filter((reference) => reference.id !== target.id)]);
+    setMask({ referenceId: target.id, dataUrl });
+    setMaskTarget(null);
+  };
+
+  const handleStyleSaved = async (slug: string) => {
+    await reloadStyles();
+    setStyle(slug);
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    const slots = REFERENCE_IMAGES_MAX - references.length;
+    if (files.length > slots) {
+      toast.error(`You can upload up to ${REFERENCE_IMAGES_MAX} images.`);
+      if (slots <= 0) return;
     }
 
+    const accepted = files.slice(0, Math.max(slots, 0)).filter((file) => {
+      // Validate file type
+      if (!(IMAGE_MIME_TYPES as readonly string[]).includes(file.type)) {
+        toast.error(`${file.name}: invalid file type. Please upload a JPG, PNG, or WEBP image.`);
+        return false;
+      }
+
+      // Validate file size
+      if (file.size > IMAGE_MAX_BYTES) {
+        toast.error(`${file.name}: file size must be less than ${IMAGE_MAX_BYTES / 1024 / 1024}MB.`);
+        return false;
+      }
+      return true;
+    });
+    if (accepted.length === 0) return;
+
     // Convert to base64
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setUploadedImage(reader.result as string);
-      setUploadedFileName(file.name);
-      toast.success("Image uploaded successfully!");
-    };
-    reader.readAsDataURL(file);
-  };
+    const images = await Promise.all(
+      accepted.map(
+        (file) =>
+          new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onloadend = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(file);
+          })
+      )
+    );
 
-  const handleRemoveImage = () => {
-    setUploadedImage(null);
-    setUploadedFileName(null);
+    setReferences((prev) => {
+      // The first image is the subject until the user says otherwise
+      let hasSubject = prev.some((reference) => reference.role === "subject");
+      const added = images.map((image, index): ReferenceUpload => {
+        const role = hasSubject ? "style" : "subject";
+        hasSubject = true;
+        return { id: crypto.randomUUID(), image, fileName: accepted[index].name, role };
+      });
+      return [...prev, ...added];
+    });
+    setFieldErrors((prev) => ({ ...prev, referenceImages: undefined }));
+    toast.success(accepted.length > 1 ? `${accepted.length} images uploaded!` : "Image uploaded successfully!");
   };
 
   const handleGenerate = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!prompt.trim()) {
-      toast.error("Please enter a prompt");
+
+    // Validate up front so field errors show without creating a row
+    const parsed = generateImageRequestSchema.safeParse({
+      version: CONTRACT_VERSION,
+      generationId: crypto.randomUUID(),
+      prompt,
+      negativePrompt: negativePrompt || undefined,
+      style,
+      referenceImages,
+      mask: mask?.dataUrl,
+      ...derivation,
+      ...parameters,
+    });
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error));
       return;
     }
+    setFieldErrors({});
 
     setLoading(true);
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        toast.error("Please sign in to generate images");
-        return;
-      }
-
-      // Create pending generation record
-      const { data: generation, error: insertError } = await supabase
-        .from("generations")
-        .insert({
-          user_id: user.id,
-          prompt: prompt.trim(),
-          style,
-          status: "pending",
-        })
-        .select()
-        .single();
-
-      if (insertError) throw insertError;
-
-      // Call edge function to generate image
-      const { data, error: functionError } = await supabase.functions.invoke("generate-image", {
-        body: { 
-          generationId: generation.id,
-          prompt: prompt.trim(), 
-          style,
-          uploadedImage: uploadedImage || undefined
-        },
+      // Queue the generation; the gallery picks up the result when it lands
+      const result = await submitGeneration({
+        prompt,
+        negativePrompt: negativePrompt || undefined,
+        style,
+        referenceImages,
+        mask: mask?.dataUrl,
+        ...derivation,
+        ...parameters,
+        count: imageCount,
       });
 
-      if (functionError) {
-        if (functionError.message?.includes("429")) {
-          toast.error("Rate limit exceeded. Please try again in a moment.");
-        } else if (functionError.message?.includes("402")) {
-          toast.error("AI credits depleted. Please add more credits to continue.");
-        } else {
-          toast.error("Failed to generate image. Please try again.");
+      if (!result.ok) {
+        if (result.error.fieldErrors) {
+          setFieldErrors(result.error.fieldErrors);
+        }
+
+        const { title, description, action } = describeGenerationError(result.error.code, result.error.retryAfter);
+        toast.error(title, {
+          description,
+          action:
+            action === "retry"
+              ? { label: "Retry", onClick: () => formRef.current?.requestSubmit() }
+              : action === "sign_in"
+                ? { label: "Sign in", onClick: () => navigate("/auth") }
+                : undefined,
+        });
+        if (action === "rephrase") {
+          document.getElementById("prompt")?.focus();
         }
-        
-        // Update status to failed
-        await supabase
-          .from("generations")
-          .update({ status: "failed" })
-          .eq("id", generation.id);
-        
+        if (result.generationId) onGenerate();
         return;
       }
 
-      toast.success("Image generated successfully!");
+      if (result.response.queued < imageCount) {
+        toast.warning(`Queued ${result.response.queued} of ${imageCount} images`, {
+          description: "You ran out of credits for the rest.",
+        });
+      } else {
+        toast.success(
+          imageCount > 1
+            ? `Generating ${imageCount} images! They will appear in your gallery when ready.`
+            : "Generation started! It will appear in your gallery when ready."
+        );
+      }
       setPrompt("");
-      setUploadedImage(null);
-      setUploadedFileName(null);
+      setReferences([]);
+      setMask(null);
+      setRemixOf(null);
       onGenerate();
     } catch (error) {
       console.error("Generation error:", error);
@@ -145,59 +315,129 @@ const GenerationForm = ({ onGenerate }: GenerationFormProps) => {
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleGenerate} className="space-y-4">
+        <form ref={formRef} onSubmit={handleGenerate} className="space-y-4">
+          {remixOf && (
+            <div className="flex items-center gap-2 rounded-lg border border-primary/50 bg-primary/5 px-3 py-2 text-sm">
+              <Shuffle className="w-4 h-4 shrink-0 text-primary" />
+              <span className="flex-1 min-w-0 truncate">Remixing “{remixOf.prompt}”</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                onClick={() => setRemixOf(null)}
+                disabled={loading}
+                aria-label="Stop remixing"
+                title="Generate without linking to the original"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+          <FieldError messages={fieldErrors.parentId} />
           {/* Image Upload Section */}
           <div className="space-y-2">
-            <Label>Upload Your Photo (Optional)</Label>
+            <Label>Reference Images (Optional)</Label>
             <div className="flex flex-col gap-3">
               <div className="flex gap-2">
                 <Button
                   type="button"
                   variant="outline"
                   className="flex-1 glass border-border/50"
-                  disabled={loading}
+                  disabled={loading || references.length >= REFERENCE_IMAGES_MAX}
                   onClick={() => document.getElementById('image-upload')?.click()}
                 >
                   <Upload className="w-4 h-4 mr-2" />
-                  {uploadedFileName ? "Change Photo" : "Upload Photo"}
+                  {references.length ? "Add Photos" : "Upload Photos"}
                 </Button>
                 <input
                   id="image-upload"
                   type="file"
                   accept="image/jpeg,image/jpg,image/png,image/webp"
+                  multiple
                   className="hidden"
                   onChange={handleImageUpload}
                   disabled={loading}
                 />
               </div>
-              
-              {uploadedImage && (
-                <div className="relative glass rounded-lg p-3 border border-border/50">
-                  <div className="flex items-center gap-3">
-                    <img 
-                      src={uploadedImage} 
-                      alt="Uploaded preview" 
-                      className="w-16 h-16 rounded object-cover"
-                    />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">{uploadedFileName}</p>
-                      <p className="text-xs text-muted-foreground">1 photo uploaded</p>
-                    </div>
+
+              {references.length > 0 && (
+                <>
+                  <ReferenceImageList
+                    references={references}
+                    onChange={setReferences}
+                    onEditMask={setMaskTarget}
+                    maskedId={mask?.referenceId ?? null}
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {references.length} of {REFERENCE_IMAGES_MAX} images · drag to set priority
+                  </p>
+                </>
+              )}
+              <FieldError messages={fieldErrors.referenceImages} />
+            </div>
+          </div>
+
+          {hasSubject && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-mode">Photo Mode</Label>
+                {mask ? (
+                  <div className="flex items-center justify-between gap-2 h-10 px-3 rounded-md border border-border/50 bg-input/50">
+                    <span className="text-sm">{EDIT_MODE_OPTIONS.inpaint.label}</span>
                     <Button
                       type="button"
                       variant="ghost"
-                      size="icon"
-                      className="shrink-0 hover:bg-destructive/10 hover:text-destructive"
-                      onClick={handleRemoveImage}
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setMask(null)}
                       disabled={loading}
                     >
-                      <X className="w-4 h-4" />
+                      Remove mask
                     </Button>
                   </div>
+                ) : (
+                  <Select value={editMode} onValueChange={(value) => setEditMode(value as EditMode)} disabled={loading}>
+                    <SelectTrigger id="edit-mode" className="bg-input/50 border-border/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EDIT_MODES.filter((mode) => !MASK_EDIT_MODES.includes(mode)).map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {EDIT_MODE_OPTIONS[mode].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {EDIT_MODE_OPTIONS[mask ? "inpaint" : editMode].hint}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="edit-strength">Strength</Label>
+                  <span className="text-xs text-muted-foreground">{Math.round(strength * 100)}%</span>
                 </div>
-              )}
+                <Slider
+                  id="edit-strength"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={[strength]}
+                  onValueChange={([value]) => setStrength(value)}
+                  className="py-2"
+                  disabled={loading}
+                />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Close to photo</span>
+                  <span>Creative</span>
+                </div>
+              </div>
             </div>
-          </div>
+          )}
 
           <div className="space-y-2">
             <Label htmlFor="prompt">Describe your image</Label>
@@ -207,20 +447,186 @@ const GenerationForm = ({ onGenerate }: GenerationFormProps) => {
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
               className="bg-input/50 border-border/50"
+              maxLength={PROMPT_MAX_LENGTH}
+              aria-invalid={!!fieldErrors.prompt}
               disabled={loading}
             />
+            <FieldError messages={fieldErrors.prompt} />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="style">Style Preset</Label>
-            <Select value={style} onValueChange={setStyle} disabled={loading}>
+            <Label htmlFor="negative-prompt">Avoid (Optional)</Label>
+            <Input
+              id="negative-prompt"
+              placeholder="blurry, text, watermark, extra fingers..."
+              value={negativePrompt}
+              onChange={(e) => setNegativePrompt(e.target.value)}
+              className="bg-input/50 border-border/50"
+              maxLength={NEGATIVE_PROMPT_MAX_LENGTH}
+              aria-invalid={!!fieldErrors.negativePrompt}
+              disabled={loading}
+            />
+            {selectedStyle?.negative_fragment && (
+              <p className="text-xs text-muted-foreground">
+                {selectedStyle.label} also avoids: {selectedStyle.negative_fragment}
+              </p>
+            )}
+            <FieldError messages={fieldErrors.negativePrompt} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="style">Style Preset</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSaveStyleOpen(true)}
+                disabled={loading}
+              >
+                <BookmarkPlus className="w-3 h-3 mr-1" />
+                Save as style
+              </Button>
+            </div>
+            <Select value={style} onValueChange={handleStyleChange} disabled={loading || stylesLoading}>
               <SelectTrigger id="style" className="bg-input/50 border-border/50">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {STYLE_PRESETS.map((preset) => (
-                  <SelectItem key={preset.value} value={preset.value}>
-                    {preset.label}
+                <SelectGroup>
+                  <SelectLabel>Presets</SelectLabel>
+                  {styles.map((preset) => (
+                    <SelectItem key={preset.slug} value={preset.slug}>
+                      {styleLabel(preset)}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                {ownStyles.length > 0 && (
+                  <>
+                    <SelectSeparator />
+                    <SelectGroup>
+                      <SelectLabel>My Styles</SelectLabel>
+                      {ownStyles.map((preset) => (
+                        <SelectItem key={preset.slug} value={preset.slug}>
+                          {styleLabel(preset)}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </>
+                )}
+                {sharedStyles.length > 0 && (
+                  <>
+                    <SelectSeparator />
+                    <SelectGroup>
+                      <SelectLabel>Shared Styles</SelectLabel>
+                      {sharedStyles.map((preset) => (
+                        <SelectItem key={preset.slug} value={preset.slug}>
+                          {styleLabel(preset)}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </>
+                )}
+              </SelectContent>
+            </Select>
+            <FieldError messages={fieldErrors.style} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="aspect-ratio">Aspect Ratio</Label>
+              <Select
+                value={aspectRatio}
+                onValueChange={(value) => setAspectRatio(value as AspectRatio)}
+                disabled={loading}
+              >
+                <SelectTrigger id="aspect-ratio" className="bg-input/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASPECT_RATIOS.map((ratio) => (
+                    <SelectItem key={ratio} value={ratio}>
+                      {ASPECT_RATIO_LABELS[ratio]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="resolution">Resolution</Label>
+              <Select
+                value={String(resolution)}
+                onValueChange={(value) => setResolution(Number(value))}
+                disabled={loading}
+              >
+                <SelectTrigger id="resolution" className="bg-input/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESOLUTIONS.map((value) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {value}px
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {aspectRatio === "custom" && (
+            <div className="space-y-2">
+              <Label htmlFor="custom-ratio-width">Custom Ratio</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="custom-ratio-width"
+                  type="number"
+                  min={1}
+                  max={32}
+                  value={customRatio.width}
+                  onChange={(e) => setCustomRatio((prev) => ({ ...prev, width: e.target.value }))}
+                  className="bg-input/50 border-border/50"
+                  aria-label="Ratio width"
+                  aria-invalid={!!fieldErrors.customAspectRatio}
+                  disabled={loading}
+                />
+                <span className="text-muted-foreground">:</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={32}
+                  value={customRatio.height}
+                  onChange={(e) => setCustomRatio((prev) => ({ ...prev, height: e.target.value }))}
+                  className="bg-input/50 border-border/50"
+                  aria-label="Ratio height"
+                  aria-invalid={!!fieldErrors.customAspectRatio}
+                  disabled={loading}
+                />
+              </div>
+              <FieldError messages={fieldErrors.customAspectRatio} />
+            </div>
+          )}
+          {dimensions && (
+            <p className="text-xs text-muted-foreground">
+              Output size: {dimensions.width} × {dimensions.height}px
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="image-count">Number of Images</Label>
+            <Select
+              value={String(imageCount)}
+              onValueChange={(value) => setImageCount(Number(value))}
+              disabled={loading}
+            >
+              <SelectTrigger id="image-count" className="bg-input/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: BATCH_MAX_SIZE }, (_, i) => i + 1).map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count === 1 ? "1 image" : `${count} images`} · {count} {count === 1 ? "credit" : "credits"}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -235,16 +641,34 @@ const GenerationForm = ({ onGenerate }: GenerationFormProps) => {
             {loading ? (
               <>
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Generating...
+                Queueing...
               </>
             ) : (
               <>
                 <Sparkles className="w-4 h-4 mr-2" />
-                Generate Image
+                {imageCount > 1 ? `Generate ${imageCount} Images` : "Generate Image"}
               </>
             )}
           </Button>
         </form>
+
+        <InpaintEditor
+          open={!!maskTarget}
+          onOpenChange={(open) => !open && setMaskTarget(null)}
+          image={references.find((reference) => reference.id === maskTarget)?.image ?? null}
+          applyLabel="Use mask"
+          onApply={handleMaskApplied}
+        />
+
+        <SaveStyleDialog
+          open={saveStyleOpen}
+          onOpenChange={setSaveStyleOpen}
+          initialPromptFragment={prompt}
+          initialNegativeFragment={negativePrompt}
+          referenceImage={(references.find((reference) => reference.role === "style") ?? references[0])?.image ?? null}
+          defaultParameters={{ aspectRatio, ...(customAspectRatio && { customAspectRatio }), resolution }}
+          onSaved={handleStyleSaved}
+        />
       </CardContent>
     </Card>
   );
@@ -1,74 +1,584 @@
-import { useEffect, useState } from "react";
+import { ReactNode, useEffect, useRef, useState } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent } from "@/components/ui/card";
-import { Loader2, Download, Trash2 } from "lucide-react";
+import { Loader2, Download, Trash2, X, RotateCcw, Check, Layers, Repeat, Brush, Expand, CornerLeftUp, GitBranch, Shuffle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useStylePresets } from "@/hooks/use-style-presets";
+import { useGenerations } from "@/hooks/use-generations";
+import { isFiltered, useGalleryFilters } from "@/hooks/use-gallery-filters";
+import { GENERATION_TAGS_QUERY_KEY } from "@/hooks/use-generation-tags";
+import type { RemixSource } from "@/hooks/use-generation-form";
+import {
+  closestCustomRatio,
+  DerivationType,
+  EditMode,
+  RESOLUTIONS,
+} from "@/lib/generation-contract";
+import { describeGenerationError } from "@/lib/generation-errors";
+import {
+  GENERATIONS_BUCKET,
+  loadReferenceImages,
+  loadStoredImage,
+  StoredReference,
+  submitGeneration,
+} from "@/lib/generations";
+import InpaintEditor, { InpaintResult } from "@/components/InpaintEditor";
+import OutpaintDialog, { OutpaintResult } from "@/components/OutpaintDialog";
+import LineageDialog from "@/components/LineageDialog";
+import GenerationLightbox from "@/components/GenerationLightbox";
+import ReviewControls from "@/components/ReviewControls";
+import { DERIVATION_LABELS } from "@/lib/lineage";
+import {
+  cardDimensions,
+  Generation,
+  GenerationReview,
+  requestedParameters,
+  resolvedRequestOf,
+  withSignedUrls,
+} from "@/lib/gallery";
 
-interface Generation {
-  id: string;
-  prompt: string;
-  style: string;
-  image_url: string | null;
-  status: string;
-  created_at: string;
-}
+const IN_PROGRESS_LABELS: Record<string, string> = {
+  pending: "Submitting...",
+  queued: "Queued...",
+  running: "Generating...",
+};
+
+// Finished one way or another; Keep only discards these
+const SETTLED_STATUSES = ["completed", "failed", "cancelled"];
+
+// A queued job that has already been attempted is waiting out a retry backoff
+const progressLabel = (generation: Generation) =>
+  generation.status === "queued" && generation.attempts > 0
+    ? `Retrying (attempt ${generation.attempts + 1} of ${generation.max_attempts})...`
+    : IN_PROGRESS_LABELS[generation.status];
+
+const referencesOf = (generation: Generation) =>
+  (generation.reference_images ?? []) as unknown as StoredReference[];
+
+// Reference images, mask and parent link, for resubmitting a generation as is
+const loadInputs = async (generation: Generation) => ({
+  referenceImages: await loadReferenceImages(referencesOf(generation)),
+  mask: generation.mask_path ? await loadStoredImage(generation.mask_path) : undefined,
+  parentId: generation.parent_id ?? undefined,
+  derivationType: generation.parent_id ? (generation.derivation_type as DerivationType) ?? undefined : undefined,
+});
+
+// Batch members are shown together in the position of the newest one
+type GalleryItem =
+  | { kind: "single"; generation: Generation }
+  | { kind: "batch"; batchId: string; members: Generation[] };
+
+const groupByBatch = (generations: Generation[]): GalleryItem[] => {
+  const items: GalleryItem[] = [];
+  const batches: Record<string, Generation[]> = {};
+  generations.forEach((generation) => {
+    if (!generation.batch_id) {
+      items.push({ kind: "single", generation });
+    } else if (batches[generation.batch_id]) {
+      batches[generation.batch_id].push(generation);
+    } else {
+      batches[generation.batch_id] = [generation];
+      items.push({ kind: "batch", batchId: generation.batch_id, members: batches[generation.batch_id] });
+    }
+  });
+  return items;
+};
+
+// Mask edits open an editor on a finished image first
+type MaskEdit = Extract<EditMode, "inpaint" | "outpaint">;
+
+const cardId = (generationId: string) => `generation-${generationId}`;
+
+// Model, seed and photo edit settings of a finished run
+const RunDetails = ({ generation }: { generation: Generation }) => {
+  const resolved = resolvedRequestOf(generation);
+  if (!resolved) return null;
+  return (
+    <p className="text-xs text-muted-foreground/70 mt-1">
+      {resolved.model}
+      {resolved.seed !== null && ` · seed ${resolved.seed}`}
+      {resolved.parameters.editMode &&
+        ` · ${resolved.parameters.editMode.replace("_", " ")} ${Math.round((resolved.parameters.strength ?? 0) * 100)}%`}
+    </p>
+  );
+};
+
+const FailureDetails = ({ generation }: { generation: Generation }) => {
+  const { title, description, action } = describeGenerationError(generation.error_code);
+  return (
+    <>
+      <p className="text-sm text-destructive">{title}</p>
+      <p className="text-xs text-muted-foreground mt-1">{description}</p>
+      {generation.attempts > 1 && (
+        <p className="text-xs text-muted-foreground mt-1">Gave up after {generation.attempts} attempts.</p>
+      )}
+      {action === "rephrase" && (
+        <p className="text-xs text-muted-foreground mt-1">Adjust the prompt and generate again.</p>
+      )}
+    </>
+  );
+};
 
 interface GenerationGalleryProps {
-  refresh: number;
+  onRemix: (source: RemixSource) => void;
 }
 
-const GenerationGallery = ({ refresh }: GenerationGalleryProps) => {
-  const [generations, setGenerations] = useState<Generation[]>([]);
-  const [loading, setLoading] = useState(true);
+const GenerationGallery = ({ onRemix }: GenerationGalleryProps) => {
+  const { filters } = useGalleryFilters();
+  const {
+    generations,
+    loading,
+    updating,
+    error: loadError,
+    hasMore,
+    loadingMore,
+    loadMore,
+    refetch,
+    removeGenerations,
+    patchGeneration,
+    upsertGeneration,
+  } = useGenerations(filters);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [reproducing, setReproducing] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ kind: MaskEdit; generation: Generation; image: string } | null>(null);
+  const [openingEditor, setOpeningEditor] = useState<{ kind: MaskEdit; id: string } | null>(null);
+  const [keeping, setKeeping] = useState<Generation | null>(null);
+  // Siblings Keep would discard, counted in the database; null while loading
+  const [keepingDiscards, setKeepingDiscards] = useState<number | null>(null);
+  const [lineageOf, setLineageOf] = useState<string | null>(null);
+  const [remixing, setRemixing] = useState<string | null>(null);
+  const [lightboxId, setLightboxId] = useState<string | null>(null);
+  // Page position when the lightbox opened, restored when it closes
+  const lightboxScrollY = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { styles, ownStyles, sharedStyles } = useStylePresets();
+  const queryClient = useQueryClient();
+
+  const styleLabels: Record<string, string> = {};
+  [...styles, ...ownStyles, ...sharedStyles].forEach((preset) => {
+    styleLabels[preset.slug] = preset.label;
+  });
+
+  useEffect(() => {
+    if (!loadError) return;
+    console.error("Error fetching generations:", loadError);
+    toast.error("Failed to load generations");
+  }, [loadError]);
+
+  // The gallery may hide siblings behind filters or unloaded pages, and Keep
+  // discards those too
+  useEffect(() => {
+    if (!keeping) return;
+    let cancelled = false;
+    setKeepingDiscards(null);
+    supabase
+      .from("generations")
+      .select("id", { count: "exact", head: true })
+      .eq("batch_id", keeping.batch_id)
+      .neq("id", keeping.id)
+      .in("status", SETTLED_STATUSES)
+      .then(({ count, error }) => {
+        if (error) console.error("Error counting batch images:", error);
+        else if (!cancelled) setKeepingDiscards(count ?? 0);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [keeping]);
+
+  // Load the next page as the end of the gallery scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !loadingMore) loadMore();
+      },
+      { rootMargin: "600px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, loadMore]);
+
+  // Live updates for the signed-in user's rows; Refresh stays as a fallback
+  useEffect(() => {
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let disposed = false;
+    let subscribedOnce = false;
+
+    const handleChange = async (payload: RealtimePostgresChangesPayload<Generation>) => {
+      if (payload.eventType === "DELETE") {
+        removeGenerations([payload.old.id]);
+        return;
+      }
+
+      try {
+        // Never keep image_url from the payload: legacy rows may hold a data URL there
+        const { image_url: _legacyImage, ...fields } = payload.new;
+        const [row] = await withSignedUrls([fields]);
+        upsertGeneration(row, payload.eventType === "INSERT");
+      } catch (error) {
+        console.error("Error applying generation update:", error);
+      }
+    };
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || disposed) return;
+
+      channel = supabase
+        .channel(`generations:${user.id}`)
+        .on<Generation>(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "generations", filter: `user_id=eq.${user.id}` },
+          handleChange
+        )
+        // Realtime doesn't filter DELETE events, and under RLS they carry only
+        // the id, so deletes from other devices need their own listener.
+        // Ids that aren't loaded are ignored.
+        .on<Generation>(
+          "postgres_changes",
+          { event: "DELETE", schema: "public", table: "generations" },
+          (payload) => removeGenerations([payload.old.id])
+        )
+        .subscribe((status) => {
+          if (status !== "SUBSCRIBED") return;
+          // Catch up on anything missed while the socket was down
+          if (subscribedOnce) refetch();
+          subscribedOnce = true;
+        });
+    });
+
+    return () => {
+      disposed = true;
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [removeGenerations, upsertGeneration, refetch]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      // Batch members share inputs, so the database works out which stored
+      // objects nothing else uses any more
+      const { data: unusedPaths, error } = await supabase.rpc("delete_generation", {
+        _generation_id: id,
+      });
+
+      if (error) throw error;
 
-  const fetchGenerations = async () => {
+      if (unusedPaths?.length) {
+        const { error: removeError } = await supabase.storage
+          .from(GENERATIONS_BUCKET)
+          .remove(unusedPaths);
+        if (removeError) console.error("Error removing generation image:", removeError);
+      }
+      
+      removeGenerations([id]);
+      toast.success("Generation deleted");
+    } catch (error) {
+      console.error("Error deleting generation:", error);
+      toast.error("Failed to delete generation");
+    }
+  };
+
+  const handleCancel = async (id: string) => {
     try {
-      const { data, error } = await supabase
+      const { data: cancelled, error } = await supabase.rpc("cancel_generation", {
+        _generation_id: id,
+      });
+
+      if (error) throw error;
+      if (!cancelled) {
+        toast.error("This generation has already finished");
+        refetch();
+        return;
+      }
+
+      patchGeneration(id, { status: "cancelled" });
+      toast.success("Generation cancelled");
+    } catch (error) {
+      console.error("Error cancelling generation:", error);
+      toast.error("Failed to cancel generation");
+    }
+  };
+
+  // Applies a favourite, rating or tag change right away and puts it back if
+  // saving fails
+  const handleReview = async (generation: Generation, changes: Partial<GenerationReview>) => {
+    const previous: Partial<GenerationReview> = Object.fromEntries(
+      Object.keys(changes).map((key) => [key, generation[key as keyof GenerationReview]])
+    );
+    patchGeneration(generation.id, changes);
+
+    try {
+      const { error } = await supabase
         .from("generations")
-        .select("*")
-        .order("created_at", { ascending: false })
-        .limit(20);
+        .update(changes)
+        .eq("id", generation.id);
 
       if (error) throw error;
-      setGenerations(data || []);
+      if (changes.tags) queryClient.invalidateQueries({ queryKey: GENERATION_TAGS_QUERY_KEY });
+    } catch (error) {
+      console.error("Error saving review:", error);
+      toast.error("Failed to save your changes");
+      patchGeneration(generation.id, previous);
+    }
+  };
+
+  // Resubmits a failed job with the same inputs, then drops the failed card
+  const handleRetry = async (generation: Generation) => {
+    setRetrying(generation.id);
+    try {
+      const inputs = await loadInputs(generation);
+
+      const result = await submitGeneration({
+        prompt: generation.prompt,
+        negativePrompt: generation.negative_prompt ?? undefined,
+        style: generation.style,
+        ...inputs,
+        ...requestedParameters(generation),
+      });
+
+      if (!result.ok) {
+        const { title, description } = describeGenerationError(result.error.code, result.error.retryAfter);
+        toast.error(title, { description });
+        return;
+      }
+
+      toast.success("Generation restarted");
+      await handleDelete(generation.id);
     } catch (error) {
-      console.error("Error fetching generations:", error);
-      toast.error("Failed to load generations");
+      console.error("Error retrying generation:", error);
+      toast.error("Failed to retry generation");
     } finally {
-      setLoading(false);
+      setRetrying(null);
     }
   };
 
-  useEffect(() => {
-    fetchGenerations();
-  }, [refresh]);
+  // Re-runs the recorded configuration: same provider, model, final prompts,
+  // seed, parameters and source photo, even if the style has changed since.
+  // The original stays in the gallery as the copy's parent.
+  const handleReproduce = async (generation: Generation) => {
+    const resolved = resolvedRequestOf(generation);
+    if (!resolved) return;
 
-  const handleDelete = async (id: string) => {
+    setReproducing(generation.id);
     try {
-      const { error } = await supabase
+      const inputs = await loadInputs(generation);
+
+      const result = await submitGeneration({
+        prompt: generation.prompt,
+        negativePrompt: generation.negative_prompt ?? undefined,
+        style: resolved.style,
+        ...inputs,
+        ...resolved.parameters,
+        provider: resolved.provider,
+        seed: resolved.seed ?? undefined,
+        parentId: generation.id,
+        derivationType: "reproduction",
+        replay: {
+          enhancedPrompt: resolved.enhancedPrompt,
+          negativePrompt: resolved.negativePrompt ?? null,
+          model: resolved.model,
+        },
+      });
+
+      if (!result.ok) {
+        const { title, description } = describeGenerationError(result.error.code, result.error.retryAfter);
+        toast.error(title, { description });
+        return;
+      }
+
+      toast.success("Reproducing image", {
+        description: resolved.seed === null ? `${resolved.provider} doesn't support seeds, so the result may differ.` : undefined,
+      });
+    } catch (error) {
+      console.error("Error reproducing generation:", error);
+      toast.error("Failed to reproduce generation");
+    } finally {
+      setReproducing(null);
+    }
+  };
+
+  // The editors need the image as a data URL to work on and resubmit
+  const handleOpenEditor = async (kind: MaskEdit, generation: Generation) => {
+    if (!generation.storage_path) return;
+    setOpeningEditor({ kind, id: generation.id });
+    try {
+      setEditing({ kind, generation, image: await loadStoredImage(generation.storage_path) });
+    } catch (error) {
+      console.error("Error loading image for editing:", error);
+      toast.error("Failed to open the editor");
+    } finally {
+      setOpeningEditor(null);
+    }
+  };
+
+  // Submits the masked edit as a child of the original
+  const handleInpaint = async ({ mask, prompt }: InpaintResult) => {
+    if (!editing) return;
+    const { generation, image } = editing;
+    const { aspectRatio, customAspectRatio, resolution } =
+      resolvedRequestOf(generation)?.parameters ?? requestedParameters(generation);
+
+    try {
+      const result = await submitGeneration({
+        prompt,
+        negativePrompt: generation.negative_prompt ?? undefined,
+        style: generation.style,
+        referenceImages: [{ image, role: "subject" }],
+        mask,
+        editMode: "inpaint",
+        aspectRatio,
+        customAspectRatio,
+        resolution,
+        parentId: generation.id,
+        derivationType: "inpaint",
+      });
+
+      if (!result.ok) {
+        const { title, description } = describeGenerationError(result.error.code, result.error.retryAfter);
+        toast.error(title, { description });
+        return;
+      }
+
+      toast.success("Inpainting started! The edit will appear in your gallery when ready.");
+      setEditing(null);
+    } catch (error) {
+      console.error("Error submitting inpaint:", error);
+      toast.error("Failed to start inpainting");
+    }
+  };
+
+  // Submits the padded canvas as a child of the original, sized to the new
+  // shape at the smallest resolution that doesn't shrink it
+  const handleOutpaint = async ({ image, mask, size, prompt }: OutpaintResult) => {
+    if (!editing) return;
+    const { generation } = editing;
+    const longEdge = Math.max(size.width, size.height);
+
+    try {
+      const result = await submitGeneration({
+        prompt,
+        negativePrompt: generation.negative_prompt ?? undefined,
+        style: generation.style,
+        referenceImages: [{ image, role: "subject" }],
+        mask,
+        editMode: "outpaint",
+        aspectRatio: "custom",
+        customAspectRatio: closestCustomRatio(size),
+        resolution: RESOLUTIONS.find((resolution) => resolution >= longEdge) ?? RESOLUTIONS[RESOLUTIONS.length - 1],
+        parentId: generation.id,
+        derivationType: "outpaint",
+      });
+
+      if (!result.ok) {
+        const { title, description } = describeGenerationError(result.error.code, result.error.retryAfter);
+        toast.error(title, { description });
+        return;
+      }
+
+      toast.success("Extending image! The result will appear in your gallery when ready.");
+      setEditing(null);
+    } catch (error) {
+      console.error("Error submitting outpaint:", error);
+      toast.error("Failed to extend image");
+    }
+  };
+
+  // Hands the generation's settings, and optionally its output, to the form
+  const handleRemix = async (generation: Generation, withImage: boolean) => {
+    setRemixing(generation.id);
+    try {
+      onRemix({
+        generationId: generation.id,
+        prompt: generation.prompt,
+        negativePrompt: generation.negative_prompt,
+        style: generation.style,
+        parameters: resolvedRequestOf(generation)?.parameters ?? requestedParameters(generation),
+        image: withImage && generation.storage_path ? await loadStoredImage(generation.storage_path) : undefined,
+      });
+    } catch (error) {
+      console.error("Error loading image for remix:", error);
+      toast.error("Failed to load the image");
+    } finally {
+      setRemixing(null);
+    }
+  };
+
+  const openLightbox = (id: string) => {
+    lightboxScrollY.current = window.scrollY;
+    setLightboxId(id);
+  };
+
+  // Pages loaded while browsing the lightbox grow the gallery; return to
+  // where the user was rather than wherever the layout shifted to
+  const closeLightbox = () => {
+    setLightboxId(null);
+    requestAnimationFrame(() => window.scrollTo({ top: lightboxScrollY.current }));
+  };
+
+  const scrollToGeneration = (generationId: string) =>
+    document.getElementById(cardId(generationId))?.scrollIntoView({ behavior: "smooth", block: "center" });
+
+  // Keeps one image of a batch and deletes the others, including any not
+  // loaded in the gallery. Unfinished ones are left to finish or be cancelled.
+  const handleKeep = async (keeper: Generation) => {
+    try {
+      const { data: discarded, error } = await supabase
         .from("generations")
         .delete()
-        .eq("id", id);
+        .eq("batch_id", keeper.batch_id)
+        .neq("id", keeper.id)
+        .in("status", SETTLED_STATUSES)
+        .select("id, storage_path");
 
       if (error) throw error;
-      
-      setGenerations(generations.filter(g => g.id !== id));
-      toast.success("Generation deleted");
+
+      const storagePaths = (discarded ?? []).map((g) => g.storage_path).filter(Boolean);
+      if (storagePaths.length > 0) {
+        const { error: removeError } = await supabase.storage
+          .from(GENERATIONS_BUCKET)
+          .remove(storagePaths);
+        if (removeError) console.error("Error removing generation images:", removeError);
+      }
+
+      removeGenerations((discarded ?? []).map((g) => g.id));
+      toast.success(`Kept 1 image, discarded ${discarded?.length ?? 0}`);
     } catch (error) {
-      console.error("Error deleting generation:", error);
-      toast.error("Failed to delete generation");
+      console.error("Error discarding batch images:", error);
+      toast.error("Failed to discard the other images");
+    } finally {
+      setKeeping(null);
     }
   };
 
-  const handleDownload = async (imageUrl: string, prompt: string) => {
+  const handleDownload = async (imageUrl: string, prompt: string, mimeType: string | null) => {
     try {
       const response = await fetch(imageUrl);
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `${prompt.slice(0, 30)}.png`;
+      a.download = `${prompt.slice(0, 30)}.${mimeType?.split("/")[1]?.replace("+xml", "") || "png"}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -91,62 +601,340 @@ const GenerationGallery = ({ refresh }: GenerationGalleryProps) => {
   if (generations.length === 0) {
     return (
       <div className="text-center py-12">
-        <p className="text-muted-foreground">No generations yet. Create your first masterpiece!</p>
+        <p className="text-muted-foreground">
+          {isFiltered(filters)
+            ? "No generations match these filters."
+            : "No generations yet. Create your first masterpiece!"}
+        </p>
       </div>
     );
   }
 
+  // Actions on a finished image, shown on the card and in the lightbox
+  const renderActions = (generation: Generation) => (
+    <>
+      <Button
+        size="icon"
+        variant="secondary"
+        title="Download"
+        onClick={() => handleDownload(generation.image_url!, generation.prompt, generation.mime_type)}
+      >
+        <Download className="w-4 h-4" />
+      </Button>
+      {resolvedRequestOf(generation) && (
+        <Button
+          size="icon"
+          variant="secondary"
+          title="Reproduce"
+          onClick={() => handleReproduce(generation)}
+          disabled={reproducing === generation.id}
+        >
+          {reproducing === generation.id ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Repeat className="w-4 h-4" />
+          )}
+        </Button>
+      )}
+      <Button
+        size="icon"
+        variant="secondary"
+        title="Inpaint"
+        onClick={() => handleOpenEditor("inpaint", generation)}
+        disabled={openingEditor?.id === generation.id}
+      >
+        {openingEditor?.id === generation.id && openingEditor.kind === "inpaint" ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Brush className="w-4 h-4" />
+        )}
+      </Button>
+      <Button
+        size="icon"
+        variant="secondary"
+        title="Extend"
+        onClick={() => handleOpenEditor("outpaint", generation)}
+        disabled={openingEditor?.id === generation.id}
+      >
+        {openingEditor?.id === generation.id && openingEditor.kind === "outpaint" ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Expand className="w-4 h-4" />
+        )}
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="icon" variant="secondary" title="Remix" disabled={remixing === generation.id}>
+            {remixing === generation.id ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Shuffle className="w-4 h-4" />
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItem onClick={() => handleRemix(generation, false)}>Remix prompt and settings</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleRemix(generation, true)}>Remix with this image</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button size="icon" variant="secondary" title="Lineage" onClick={() => setLineageOf(generation.id)}>
+        <GitBranch className="w-4 h-4" />
+      </Button>
+      <Button
+        size="icon"
+        variant="destructive"
+        title="Delete"
+        onClick={() => handleDelete(generation.id)}
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </>
+  );
+
+  // Image area of a card: progress, failure or the finished image with actions
+  const renderMedia = (generation: Generation, extraActions?: ReactNode) => {
+    const { width, height } = cardDimensions(generation);
+    return (
+      <div className="relative group" style={{ aspectRatio: `${width} / ${height}` }}>
+        {IN_PROGRESS_LABELS[generation.status] ? (
+          <div className="absolute inset-0 flex items-center justify-center bg-card/50">
+            <div className="text-center">
+              <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">{progressLabel(generation)}</p>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="mt-2 hover:bg-destructive/10 hover:text-destructive"
+                onClick={() => handleCancel(generation.id)}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : generation.status === "failed" || generation.status === "cancelled" ? (
+          <div className="absolute inset-0 flex items-center justify-center bg-card/50 p-4">
+            <div className="text-center">
+              {generation.status === "failed" ? (
+                <FailureDetails generation={generation} />
+              ) : (
+                <p className="text-sm text-destructive">Generation cancelled</p>
+              )}
+              <div className="flex justify-center gap-2 mt-2">
+                {(generation.status === "cancelled" ||
+                  describeGenerationError(generation.error_code).action === "retry") && (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => handleRetry(generation)}
+                    disabled={retrying === generation.id}
+                  >
+                    {retrying === generation.id ? (
+                      <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                    )}
+                    Retry
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="hover:bg-destructive/10 hover:text-destructive"
+                  onClick={() => handleDelete(generation.id)}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Remove
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : generation.image_url ? (
+          <>
+            <img
+              src={generation.image_url}
+              alt={generation.prompt}
+              className="w-full h-full object-cover"
+            />
+            <div
+              className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2 cursor-zoom-in"
+              onClick={(e) => e.target === e.currentTarget && openLightbox(generation.id)}
+            >
+              {renderActions(generation)}
+              {extraActions}
+            </div>
+          </>
+        ) : null}
+      </div>
+    );
+  };
+
+  const styleLine = (generation: Generation) => (
+    <p className="text-xs text-primary mt-1 capitalize">{styleLabels[generation.style] ?? generation.style}</p>
+  );
+
+  // Links a derived image back to the one it was made from
+  const parentLine = (generation: Generation) => {
+    if (!generation.derivation_type) return null;
+    const parent = generations.find((g) => g.id === generation.parent_id);
+    const label = DERIVATION_LABELS[generation.derivation_type as DerivationType] ?? "Derived from";
+    return parent ? (
+      <button
+        type="button"
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground mt-1 max-w-full"
+        onClick={() => scrollToGeneration(parent.id)}
+      >
+        <CornerLeftUp className="w-3 h-3 shrink-0" />
+        <span className="truncate">
+          {label} “{parent.prompt}”
+        </span>
+      </button>
+    ) : (
+      <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+        <CornerLeftUp className="w-3 h-3" />
+        {label} {generation.parent_id ? "an older image" : "a deleted image"}
+      </p>
+    );
+  };
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-      {generations.map((generation) => (
-        <Card key={generation.id} className="glass border-border/50 overflow-hidden group">
-          <CardContent className="p-0">
-            <div className="relative aspect-square">
-              {generation.status === "pending" ? (
-                <div className="absolute inset-0 flex items-center justify-center bg-card/50">
-                  <div className="text-center">
-                    <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto mb-2" />
-                    <p className="text-sm text-muted-foreground">Generating...</p>
+    <>
+      <div className={cn("columns-1 md:columns-2 lg:columns-3 gap-4 transition-opacity", updating && "opacity-60")}>
+        {groupByBatch(generations).map((item) => {
+          if (item.kind === "single") {
+            const { generation } = item;
+            return (
+              <Card
+                key={generation.id}
+                id={cardId(generation.id)}
+                className="glass border-border/50 overflow-hidden break-inside-avoid mb-4"
+              >
+                <CardContent className="p-0">
+                  {renderMedia(generation)}
+                  <div className="p-4">
+                    <p className="text-sm text-muted-foreground line-clamp-2">{generation.prompt}</p>
+                    {generation.negative_prompt && (
+                      <p className="text-xs text-muted-foreground/70 line-clamp-1 mt-1">Avoid: {generation.negative_prompt}</p>
+                    )}
+                    {styleLine(generation)}
+                    {parentLine(generation)}
+                    <RunDetails generation={generation} />
+                    {generation.image_url && (
+                      <ReviewControls
+                        review={generation}
+                        onChange={(changes) => handleReview(generation, changes)}
+                        className="mt-3"
+                      />
+                    )}
                   </div>
+                </CardContent>
+              </Card>
+            );
+          }
+
+          const [first] = item.members;
+          const settled = item.members.every((g) => !IN_PROGRESS_LABELS[g.status]);
+          return (
+            <Card key={item.batchId} className="glass border-border/50 overflow-hidden break-inside-avoid mb-4">
+              <CardContent className="p-0">
+                <div className="grid grid-cols-2 gap-1">
+                  {item.members.map((generation) => (
+                    <div key={generation.id} id={cardId(generation.id)}>
+                      {renderMedia(
+                        generation,
+                        settled && item.members.length > 1 && (
+                          <Button size="icon" variant="secondary" title="Keep this one" onClick={() => setKeeping(generation)}>
+                            <Check className="w-4 h-4" />
+                          </Button>
+                        )
+                      )}
+                      {generation.image_url && (
+                        <ReviewControls
+                          review={generation}
+                          onChange={(changes) => handleReview(generation, changes)}
+                          className="px-2 py-2"
+                        />
+                      )}
+                    </div>
+                  ))}
                 </div>
-              ) : generation.status === "failed" ? (
-                <div className="absolute inset-0 flex items-center justify-center bg-card/50">
-                  <p className="text-sm text-destructive">Generation failed</p>
-                </div>
-              ) : generation.image_url ? (
-                <>
-                  <img
-                    src={generation.image_url}
-                    alt={generation.prompt}
-                    className="w-full h-full object-cover"
-                  />
-                  <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
-                    <Button
-                      size="icon"
-                      variant="secondary"
-                      onClick={() => handleDownload(generation.image_url!, generation.prompt)}
-                    >
-                      <Download className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      size="icon"
-                      variant="destructive"
-                      onClick={() => handleDelete(generation.id)}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                <div className="p-4">
+                  <p className="text-sm text-muted-foreground line-clamp-2">{first.prompt}</p>
+                  <div className="flex items-center justify-between">
+                    {styleLine(first)}
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                      <Layers className="w-3 h-3" />
+                      {item.members.length} {item.members.length === 1 ? "image" : "images"}
+                    </span>
                   </div>
-                </>
-              ) : null}
-            </div>
-            <div className="p-4">
-              <p className="text-sm text-muted-foreground line-clamp-2">{generation.prompt}</p>
-              <p className="text-xs text-primary mt-1 capitalize">{generation.style}</p>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
-    </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div ref={loadMoreRef} className="flex justify-center py-6">
+        {loadingMore ? (
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        ) : (
+          !hasMore && <p className="text-sm text-muted-foreground">You've reached your first creation.</p>
+        )}
+      </div>
+
+      <InpaintEditor
+        open={editing?.kind === "inpaint"}
+        onOpenChange={(open) => !open && setEditing(null)}
+        image={editing?.kind === "inpaint" ? editing.image : null}
+        withPrompt
+        initialPrompt={editing?.generation.prompt}
+        applyLabel="Inpaint"
+        onApply={handleInpaint}
+      />
+
+      <OutpaintDialog
+        open={editing?.kind === "outpaint"}
+        onOpenChange={(open) => !open && setEditing(null)}
+        image={editing?.kind === "outpaint" ? editing.image : null}
+        initialPrompt={editing?.generation.prompt}
+        onApply={handleOutpaint}
+      />
+
+      <GenerationLightbox
+        generations={generations.filter((generation) => generation.image_url)}
+        openId={lightboxId}
+        onOpenChange={(open) => !open && closeLightbox()}
+        onNavigate={setLightboxId}
+        onReachEnd={() => hasMore && !loadingMore && loadMore()}
+        styleLabels={styleLabels}
+        renderActions={renderActions}
+        onReview={handleReview}
+      />
+
+      <LineageDialog
+        generationId={lineageOf}
+        onOpenChange={(open) => !open && setLineageOf(null)}
+        styleLabels={styleLabels}
+      />
+
+      <AlertDialog open={!!keeping} onOpenChange={(open) => !open && setKeeping(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Keep this image?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {keepingDiscards === null
+                ? "The other images in this batch will be deleted."
+                : `The other ${keepingDiscards} ${keepingDiscards === 1 ? "image" : "images"} in this batch will be deleted.`}{" "}
+              This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => keeping && handleKeep(keeping)}>Discard others</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
   );
 };
 
@@ -0,0 +1,260 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { ZoomIn, ZoomOut, Maximize } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { aspectRatioLabel, DerivationType } from "@/lib/generation-contract";
+import { Generation, GenerationReview, requestedParameters, resolvedRequestOf } from "@/lib/gallery";
+import { DERIVATION_LABELS } from "@/lib/lineage";
+import ReviewControls from "@/components/ReviewControls";
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 5;
+const ZOOM_STEP = 1.25;
+
+interface Zoom {
+  scale: number;
+  // Pan offset in screen pixels
+  x: number;
+  y: number;
+}
+
+const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+
+const clampScale = (scale: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+
+const MetadataRow = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div>
+    <dt className="text-xs text-muted-foreground">{label}</dt>
+    <dd className="text-sm break-words">{children}</dd>
+  </div>
+);
+
+// Prompt, style and the settings the image was made with; the resolved
+// request when there is one, otherwise what was asked for
+const Metadata = ({ generation, styleLabel }: { generation: Generation; styleLabel: string }) => {
+  const resolved = resolvedRequestOf(generation);
+  const parameters = resolved?.parameters ?? requestedParameters(generation);
+  return (
+    <dl className="space-y-3">
+      <MetadataRow label="Prompt">{generation.prompt}</MetadataRow>
+      {generation.negative_prompt && <MetadataRow label="Avoid">{generation.negative_prompt}</MetadataRow>}
+      <MetadataRow label="Style">{styleLabel}</MetadataRow>
+      {generation.derivation_type && (
+        <MetadataRow label="Made by">
+          {DERIVATION_LABELS[generation.derivation_type as DerivationType] ?? generation.derivation_type} another image
+        </MetadataRow>
+      )}
+      <MetadataRow label="Aspect ratio">
+        {aspectRatioLabel(parameters.aspectRatio ?? "1:1", parameters.customAspectRatio)}
+        {generation.width && generation.height && ` · ${generation.width} × ${generation.height}px`}
+      </MetadataRow>
+      {parameters.editMode && (
+        <MetadataRow label="Photo mode">
+          {parameters.editMode.replace("_", " ")} · {Math.round((parameters.strength ?? 0) * 100)}%
+        </MetadataRow>
+      )}
+      {resolved && (
+        <MetadataRow label="Model">
+          {resolved.provider} / {resolved.model}
+          {resolved.seed !== null && ` · seed ${resolved.seed}`}
+        </MetadataRow>
+      )}
+      <MetadataRow label="Created">{new Date(generation.created_at).toLocaleString()}</MetadataRow>
+    </dl>
+  );
+};
+
+interface GenerationLightboxProps {
+  // Finished generations to page through, in gallery order
+  generations: Generation[];
+  // Generation on screen; closed when null
+  openId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onNavigate: (id: string) => void;
+  // Called near the last image, to load more behind it
+  onReachEnd: () => void;
+  styleLabels: Record<string, string>;
+  // The card's actions, rendered in the side panel
+  renderActions: (generation: Generation) => ReactNode;
+  onReview: (generation: Generation, changes: Partial<GenerationReview>) => void;
+}
+
+// Full-size viewer over the gallery. Arrow keys and swipes move between
+// images; wheel or the buttons zoom, and dragging pans a zoomed image.
+const GenerationLightbox = ({
+  generations,
+  openId,
+  onOpenChange,
+  onNavigate,
+  onReachEnd,
+  styleLabels,
+  renderActions,
+  onReview,
+}: GenerationLightboxProps) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [zoom, setZoom] = useState<Zoom>(NO_ZOOM);
+  const panStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  // Last shown position, to land on a neighbour when the current image is deleted
+  const lastIndex = useRef(0);
+
+  const index = generations.findIndex((generation) => generation.id === openId);
+  const current = index >= 0 ? generations[index] : null;
+  if (index >= 0) lastIndex.current = index;
+
+  useEffect(() => {
+    if (!openId || index >= 0) return;
+    if (generations.length === 0) onOpenChange(false);
+    else onNavigate(generations[Math.min(lastIndex.current, generations.length - 1)].id);
+  }, [openId, index, generations, onOpenChange, onNavigate]);
+
+  // Jump to the open image on opening, and follow changes from outside
+  useEffect(() => {
+    if (api && index >= 0 && api.selectedScrollSnap() !== index) api.scrollTo(index, true);
+  }, [api, index]);
+
+  useEffect(() => {
+    if (!api) return;
+    const handleSelect = () => {
+      const selected = generations[api.selectedScrollSnap()];
+      if (selected) onNavigate(selected.id);
+    };
+    api.on("select", handleSelect);
+    return () => {
+      api.off("select", handleSelect);
+    };
+  }, [api, generations, onNavigate]);
+
+  useEffect(() => setZoom(NO_ZOOM), [openId]);
+
+  useEffect(() => {
+    if (index >= 0 && index >= generations.length - 2) onReachEnd();
+  }, [index, generations.length, onReachEnd]);
+
+  const zoomBy = (factor: number) =>
+    setZoom((prev) => {
+      const scale = clampScale(prev.scale * factor);
+      return scale === 1 ? NO_ZOOM : { scale, x: (prev.x * scale) / prev.scale, y: (prev.y * scale) / prev.scale };
+    });
+
+  // Arrows are handled by the carousel when focus is inside it
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.defaultPrevented || e.target instanceof HTMLInputElement) return;
+    if (e.key === "ArrowLeft") api?.scrollPrev();
+    else if (e.key === "ArrowRight") api?.scrollNext();
+    else if (e.key === "+" || e.key === "=") zoomBy(ZOOM_STEP);
+    else if (e.key === "-") zoomBy(1 / ZOOM_STEP);
+    else return;
+    e.preventDefault();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (zoom.scale === 1) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: zoom.x, y: zoom.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = panStart.current;
+    if (!start) return;
+    setZoom((prev) => ({
+      ...prev,
+      x: start.x + e.clientX - start.pointerX,
+      y: start.y + e.clientY - start.pointerY,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    panStart.current = null;
+  };
+
+  return (
+    <Dialog open={!!current} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="glass border-border/50 max-w-[95vw] w-[95vw] h-[90vh] p-0 gap-0 flex flex-col md:flex-row overflow-hidden"
+        onKeyDown={handleKeyDown}
+        // The gallery restores its own scroll position; focusing the card would jump
+        onCloseAutoFocus={(e) => e.preventDefault()}
+      >
+        <DialogTitle className="sr-only">{current?.prompt ?? "Image"}</DialogTitle>
+        <DialogDescription className="sr-only">
+          Image {index + 1} of {generations.length}. Use the arrow keys to move between images.
+        </DialogDescription>
+
+        <div className="relative flex-1 min-w-0 min-h-0 bg-black/60">
+          <Carousel
+            setApi={setApi}
+            opts={{ watchDrag: zoom.scale === 1 }}
+            className="h-full"
+          >
+            <CarouselContent>
+              {generations.map((generation, slideIndex) => (
+                <CarouselItem key={generation.id} className="h-[55vh] md:h-[90vh]">
+                  <div
+                    className={cn(
+                      "h-full w-full flex items-center justify-center overflow-hidden touch-none",
+                      zoom.scale > 1 && "cursor-grab active:cursor-grabbing"
+                    )}
+                    onWheel={(e) => slideIndex === index && zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP)}
+                    onDoubleClick={() => setZoom((prev) => (prev.scale > 1 ? NO_ZOOM : { scale: 2.5, x: 0, y: 0 }))}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                  >
+                    <img
+                      src={generation.image_url ?? undefined}
+                      alt={generation.prompt}
+                      className="max-h-full max-w-full object-contain select-none transition-transform duration-75"
+                      style={
+                        slideIndex === index
+                          ? { transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})` }
+                          : undefined
+                      }
+                      draggable={false}
+                    />
+                  </div>
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            <CarouselPrevious className="left-4" />
+            <CarouselNext className="right-4" />
+          </Carousel>
+
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 glass rounded-full px-2 py-1">
+            <Button size="icon" variant="ghost" className="h-8 w-8" title="Zoom out" onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={zoom.scale === MIN_ZOOM}>
+              <ZoomOut className="w-4 h-4" />
+            </Button>
+            <span className="text-xs w-12 text-center">{Math.round(zoom.scale * 100)}%</span>
+            <Button size="icon" variant="ghost" className="h-8 w-8" title="Zoom in" onClick={() => zoomBy(ZOOM_STEP)} disabled={zoom.scale === MAX_ZOOM}>
+              <ZoomIn className="w-4 h-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8" title="Fit to screen" onClick={() => setZoom(NO_ZOOM)} disabled={zoom.scale === 1}>
+              <Maximize className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {current && (
+          <aside className="md:w-80 shrink-0 border-t md:border-t-0 md:border-l border-border/50 p-6 pt-10 overflow-y-auto space-y-6">
+            <p className="text-xs text-muted-foreground">
+              {index + 1} of {generations.length}
+            </p>
+            <div className="flex flex-wrap gap-2">{renderActions(current)}</div>
+            <ReviewControls key={current.id} review={current} onChange={(changes) => onReview(current, changes)} />
+            <Metadata generation={current} styleLabel={styleLabels[current.style] ?? current.style} />
+          </aside>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GenerationLightbox;
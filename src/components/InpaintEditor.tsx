@@ -0,0 +1,237 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Brush, Eraser, Loader2, Trash2 } from "lucide-react";
+import { PROMPT_MAX_LENGTH } from "@/lib/generation-contract";
+
+type Tool = "brush" | "eraser";
+
+const DEFAULT_BRUSH_SIZE = 40;
+
+export interface InpaintResult {
+  // PNG data URL the size of the image; transparent where painted
+  mask: string;
+  prompt: string;
+}
+
+interface InpaintEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Data URL of the image to paint on
+  image: string | null;
+  // Ask for the prompt here too; the form supplies its own otherwise
+  withPrompt?: boolean;
+  initialPrompt?: string;
+  applyLabel: string;
+  onApply: (result: InpaintResult) => Promise<void> | void;
+}
+
+// Paints the area to repaint over an image. Strokes go on an overlay canvas at
+// the image's natural resolution, so the exported mask lines up pixel for pixel.
+const InpaintEditor = ({
+  open,
+  onOpenChange,
+  image,
+  withPrompt,
+  initialPrompt = "",
+  applyLabel,
+  onApply,
+}: InpaintEditorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<Tool>("brush");
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
+  const [painted, setPainted] = useState(false);
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPrompt(initialPrompt);
+    setPainted(false);
+  }, [open, initialPrompt]);
+
+  // Size the overlay to the image once it has loaded
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setPainted(false);
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  };
+
+  const drawTo = (canvas: HTMLCanvasElement, point: { x: number; y: number }) => {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    const from = lastPoint.current ?? point;
+    // Brush size is in screen pixels; scale it to the image
+    ctx.lineWidth = (brushSize * canvas.width) / canvas.getBoundingClientRect().width;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "rgb(239, 68, 68)";
+    ctx.globalCompositeOperation = tool === "eraser" ? "destination-out" : "source-over";
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+    if (tool === "brush") setPainted(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    drawTo(e.currentTarget, toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    drawTo(e.currentTarget, toCanvasPoint(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPoint.current = null;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setPainted(false);
+  };
+
+  // Opaque black everywhere except the painted strokes, which are cut out
+  const exportMask = () => {
+    const overlay = canvasRef.current!;
+    const mask = document.createElement("canvas");
+    mask.width = overlay.width;
+    mask.height = overlay.height;
+    const ctx = mask.getContext("2d")!;
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = "destination-out";
+    ctx.drawImage(overlay, 0, 0);
+    return mask.toDataURL("image/png");
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      await onApply({ mask: exportMask(), prompt });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass border-border/50 max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Inpaint</DialogTitle>
+          <DialogDescription>Paint over the area you want to change. Everything else is kept.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <ToggleGroup
+            type="single"
+            value={tool}
+            onValueChange={(value) => value && setTool(value as Tool)}
+            variant="outline"
+            size="sm"
+          >
+            <ToggleGroupItem value="brush" aria-label="Brush">
+              <Brush className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="eraser" aria-label="Eraser">
+              <Eraser className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex items-center gap-2 flex-1 min-w-40">
+            <Label htmlFor="brush-size" className="text-xs shrink-0">Size</Label>
+            <Slider
+              id="brush-size"
+              min={5}
+              max={150}
+              step={5}
+              value={[brushSize]}
+              onValueChange={([value]) => setBrushSize(value)}
+            />
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={!painted}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+
+        {image && (
+          <div className="relative mx-auto w-fit">
+            <img
+              src={image}
+              alt="Image to inpaint"
+              className="max-h-[60vh] max-w-full rounded select-none"
+              draggable={false}
+              onLoad={handleImageLoad}
+            />
+            <canvas
+              ref={canvasRef}
+              className="absolute inset-0 w-full h-full opacity-50 touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            />
+          </div>
+        )}
+
+        {withPrompt && (
+          <div className="space-y-2">
+            <Label htmlFor="inpaint-prompt">What should go there?</Label>
+            <Input
+              id="inpaint-prompt"
+              placeholder="A red scarf around the neck..."
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              className="bg-input/50 border-border/50"
+              maxLength={PROMPT_MAX_LENGTH}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            className="bg-gradient-to-r from-primary to-secondary hover:opacity-90 transition-opacity"
+            disabled={!painted || applying || (withPrompt && !prompt.trim())}
+          >
+            {applying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {applyLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InpaintEditor;
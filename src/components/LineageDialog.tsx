@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ImageIcon, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { DerivationType, generationParametersSchema } from "@/lib/generation-contract";
+import { createSignedImageUrls } from "@/lib/generations";
+import { buildLineageTree, DERIVATION_LABELS, diffFields, diffWords, LineageNode } from "@/lib/lineage";
+
+const LINEAGE_COLUMNS = "id, parent_id, derivation_type, prompt, negative_prompt, style, parameters, status, storage_path, created_at";
+
+interface LineageGeneration {
+  id: string;
+  parent_id: string | null;
+  derivation_type: string | null;
+  prompt: string;
+  negative_prompt: string | null;
+  style: string;
+  parameters: Json;
+  status: string;
+  storage_path: string | null;
+  created_at: string;
+  image_url: string | null;
+}
+
+// Style, negative prompt and requested parameters, for diffing one step
+// against the next
+const settingsOf = (generation: LineageGeneration): Record<string, unknown> => {
+  const parameters = generationParametersSchema.safeParse(generation.parameters ?? {});
+  return {
+    style: generation.style,
+    negativePrompt: generation.negative_prompt ?? undefined,
+    ...(parameters.success ? parameters.data : {}),
+  };
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "default" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+const StepDiff = ({ parent, child }: { parent: LineageGeneration; child: LineageGeneration }) => {
+  const words = diffWords(parent.prompt, child.prompt);
+  const fields = diffFields(settingsOf(parent), settingsOf(child));
+  const promptChanged = words.some((word) => word.change !== "same");
+  if (!promptChanged && fields.length === 0) {
+    return <p className="text-xs text-muted-foreground">Same prompt and settings</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {promptChanged && (
+        <p className="leading-relaxed">
+          {words.map((word, index) => (
+            <span
+              key={index}
+              className={cn(
+                word.change === "added" && "bg-primary/20 text-primary",
+                word.change === "removed" && "bg-destructive/20 text-destructive line-through"
+              )}
+            >
+              {word.text}{" "}
+            </span>
+          ))}
+        </p>
+      )}
+      {fields.map(({ field, before, after }) => (
+        <p key={field} className="text-muted-foreground">
+          {field}: <span className="line-through">{formatValue(before)}</span> → {formatValue(after)}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+interface LineageStepProps {
+  node: LineageNode<LineageGeneration>;
+  parent?: LineageGeneration;
+  focusedId: string;
+  styleLabels: Record<string, string>;
+}
+
+const LineageStep = ({ node, parent, focusedId, styleLabels }: LineageStepProps) => (
+  <li className="space-y-3">
+    <div
+      className={cn(
+        "flex gap-3 rounded-lg border border-border/50 p-3",
+        node.id === focusedId && "border-primary bg-primary/5"
+      )}
+    >
+      {node.image_url ? (
+        <img src={node.image_url} alt={node.prompt} className="w-16 h-16 rounded object-cover shrink-0" />
+      ) : (
+        <div className="w-16 h-16 rounded bg-muted flex items-center justify-center shrink-0">
+          <ImageIcon className="w-5 h-5 text-muted-foreground" />
+        </div>
+      )}
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          {node.derivation_type && (
+            <Badge variant="secondary">{DERIVATION_LABELS[node.derivation_type as DerivationType] ?? node.derivation_type}</Badge>
+          )}
+          <span className="text-xs text-primary">{styleLabels[node.style] ?? node.style}</span>
+          <span className="text-xs text-muted-foreground">{new Date(node.created_at).toLocaleString()}</span>
+          {node.status !== "completed" && <span className="text-xs text-muted-foreground">· {node.status}</span>}
+        </div>
+        {parent ? <StepDiff parent={parent} child={node} /> : <p className="text-sm">{node.prompt}</p>}
+      </div>
+    </div>
+    {node.children.length > 0 && (
+      <ul className="ml-6 pl-4 border-l border-border/50 space-y-3">
+        {node.children.map((child) => (
+          <LineageStep key={child.id} node={child} parent={node} focusedId={focusedId} styleLabels={styleLabels} />
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+interface LineageDialogProps {
+  // Generation whose ancestors and descendants are shown; closed when null
+  generationId: string | null;
+  onOpenChange: (open: boolean) => void;
+  styleLabels: Record<string, string>;
+}
+
+// The chain of edits leading to a generation and everything made from it,
+// with what changed at each step
+const LineageDialog = ({ generationId, onOpenChange, styleLabels }: LineageDialogProps) => {
+  const [tree, setTree] = useState<LineageNode<LineageGeneration>[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!generationId) return;
+    let cancelled = false;
+
+    const fetchLineage = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .rpc("get_generation_lineage", { _generation_id: generationId })
+          .select(LINEAGE_COLUMNS);
+
+        if (error) throw error;
+        const rows = (data ?? []) as unknown as Omit<LineageGeneration, "image_url">[];
+        const signedUrls = await createSignedImageUrls(rows.map((row) => row.storage_path).filter(Boolean));
+        if (cancelled) return;
+        setTree(buildLineageTree(rows.map((row) => ({
+          ...row,
+          image_url: row.storage_path ? signedUrls[row.storage_path] ?? null : null,
+        }))));
+      } catch (error) {
+        console.error("Error fetching lineage:", error);
+        toast.error("Failed to load lineage");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchLineage();
+    return () => {
+      cancelled = true;
+    };
+  }, [generationId]);
+
+  return (
+    <Dialog open={!!generationId} onOpenChange={onOpenChange}>
+      <DialogContent className="glass border-border/50 max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Lineage</DialogTitle>
+          <DialogDescription>How this image was reached, and what was made from it.</DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="max-h-[70vh] overflow-y-auto pr-3">
+            <ul className="space-y-3">
+              {tree.map((root) => (
+                <LineageStep key={root.id} node={root} focusedId={generationId ?? ""} styleLabels={styleLabels} />
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LineageDialog;
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowLeft, ArrowRight, ArrowUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { ASPECT_RATIOS, ImageDimensions, PROMPT_MAX_LENGTH } from "@/lib/generation-contract";
+import { buildOutpaintCanvas, hasPadding, NO_PADDING, Padding, paddingForRatio } from "@/lib/outpaint";
+
+type Side = keyof Padding;
+type ExtendBy = "sides" | "ratio";
+
+const SIDES: { side: Side; label: string; icon: typeof ArrowUp }[] = [
+  { side: "top", label: "Top", icon: ArrowUp },
+  { side: "right", label: "Right", icon: ArrowRight },
+  { side: "bottom", label: "Bottom", icon: ArrowDown },
+  { side: "left", label: "Left", icon: ArrowLeft },
+];
+
+const TARGET_RATIOS = ASPECT_RATIOS.filter((ratio) => ratio !== "custom");
+
+const ratioValue = (ratio: string) => {
+  const [width, height] = ratio.split(":").map(Number);
+  return width / height;
+};
+
+export interface OutpaintResult {
+  // Padded canvas and its mask, both data URLs
+  image: string;
+  mask: string;
+  size: ImageDimensions;
+  prompt: string;
+}
+
+interface OutpaintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Data URL of the image to extend
+  image: string | null;
+  initialPrompt?: string;
+  onApply: (result: OutpaintResult) => Promise<void> | void;
+}
+
+// Grows an image's canvas, either by chosen sides or to a target aspect ratio.
+// The preview shows the original inside the new frame.
+const OutpaintDialog = ({ open, onOpenChange, image, initialPrompt = "", onApply }: OutpaintDialogProps) => {
+  const [extendBy, setExtendBy] = useState<ExtendBy>("sides");
+  const [sides, setSides] = useState<Side[]>(["left", "right"]);
+  const [amount, setAmount] = useState(50);
+  const [targetRatio, setTargetRatio] = useState<string>("16:9");
+  const [imageSize, setImageSize] = useState<ImageDimensions | null>(null);
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPrompt(initialPrompt);
+  }, [open, initialPrompt]);
+
+  const padding = useMemo<Padding>(() => {
+    if (!imageSize) return NO_PADDING;
+    if (extendBy === "ratio") return paddingForRatio(imageSize, ratioValue(targetRatio));
+    const by = (side: Side) => (sides.includes(side) ? amount / 100 : 0);
+    return { top: by("top"), right: by("right"), bottom: by("bottom"), left: by("left") };
+  }, [imageSize, extendBy, targetRatio, sides, amount]);
+
+  const totalWidth = 1 + padding.left + padding.right;
+  const totalHeight = 1 + padding.top + padding.bottom;
+  // Width over height of the extended canvas, for the preview frame
+  const previewRatio = imageSize ? (imageSize.width * totalWidth) / (imageSize.height * totalHeight) : 1;
+
+  const handleApply = async () => {
+    if (!image) return;
+    setApplying(true);
+    try {
+      const canvas = await buildOutpaintCanvas(image, padding);
+      await onApply({ ...canvas, prompt });
+    } catch (error) {
+      console.error("Error extending image:", error);
+      toast.error("Failed to extend image");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass border-border/50 max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Extend image</DialogTitle>
+          <DialogDescription>Grow the canvas and let the model fill in the new area.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={extendBy} onValueChange={(value) => setExtendBy(value as ExtendBy)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="sides">Sides</TabsTrigger>
+            <TabsTrigger value="ratio">Aspect ratio</TabsTrigger>
+          </TabsList>
+          <TabsContent value="sides" className="flex flex-wrap items-center gap-4">
+            <ToggleGroup
+              type="multiple"
+              value={sides}
+              onValueChange={(value) => setSides(value as Side[])}
+              variant="outline"
+              size="sm"
+            >
+              {SIDES.map(({ side, label, icon: Icon }) => (
+                <ToggleGroupItem key={side} value={side} aria-label={label}>
+                  <Icon className="w-4 h-4" />
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <div className="flex items-center gap-2 flex-1 min-w-40">
+              <Label htmlFor="outpaint-amount" className="text-xs shrink-0">By {amount}%</Label>
+              <Slider
+                id="outpaint-amount"
+                min={10}
+                max={100}
+                step={5}
+                value={[amount]}
+                onValueChange={([value]) => setAmount(value)}
+              />
+            </div>
+          </TabsContent>
+          <TabsContent value="ratio">
+            <Select value={targetRatio} onValueChange={setTargetRatio}>
+              <SelectTrigger className="bg-input/50 border-border/50" aria-label="Target aspect ratio">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TARGET_RATIOS.map((ratio) => (
+                  <SelectItem key={ratio} value={ratio}>
+                    {ratio}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </TabsContent>
+        </Tabs>
+
+        {image && (
+          <div className="flex justify-center">
+            <div
+              className="relative rounded bg-[repeating-linear-gradient(45deg,hsl(var(--muted)),hsl(var(--muted))_8px,transparent_8px,transparent_16px)] border border-dashed border-border"
+              style={{ aspectRatio: previewRatio, width: `min(100%, calc(50vh * ${previewRatio}))` }}
+            >
+              <img
+                src={image}
+                alt="Image to extend"
+                className="absolute rounded-sm"
+                style={{
+                  left: `${(padding.left / totalWidth) * 100}%`,
+                  top: `${(padding.top / totalHeight) * 100}%`,
+                  width: `${100 / totalWidth}%`,
+                  height: `${100 / totalHeight}%`,
+                }}
+                onLoad={(e) =>
+                  setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })
+                }
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="outpaint-prompt">Describe the scene</Label>
+          <Input
+            id="outpaint-prompt"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            className="bg-input/50 border-border/50"
+            maxLength={PROMPT_MAX_LENGTH}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            className="bg-gradient-to-r from-primary to-secondary hover:opacity-90 transition-opacity"
+            disabled={!imageSize || !hasPadding(padding) || applying || !prompt.trim()}
+          >
+            {applying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Extend
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OutpaintDialog;
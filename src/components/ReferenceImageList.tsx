@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Brush, GripVertical, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ReferenceRole, REFERENCE_ROLES } from "@/lib/generation-contract";
+
+export interface ReferenceUpload {
+  id: string;
+  // Data URL
+  image: string;
+  fileName: string;
+  role: ReferenceRole;
+}
+
+const ROLE_LABELS: Record<ReferenceRole, string> = {
+  subject: "Subject",
+  style: "Style reference",
+  composition: "Composition / pose",
+};
+
+interface ReferenceImageListProps {
+  references: ReferenceUpload[];
+  onChange: (references: ReferenceUpload[]) => void;
+  // Opens the mask editor for an image
+  onEditMask: (id: string) => void;
+  // Image that currently has an inpainting mask
+  maskedId: string | null;
+  disabled?: boolean;
+}
+
+// Thumbnails in priority order; drag to reorder, pick a role per image
+const ReferenceImageList = ({ references, onChange, onEditMask, maskedId, disabled }: ReferenceImageListProps) => {
+  const [dragging, setDragging] = useState<string | null>(null);
+
+  const move = (id: string, targetIndex: number) => {
+    const from = references.findIndex((reference) => reference.id === id);
+    if (from < 0 || from === targetIndex) return;
+    const next = [...references];
+    const [moved] = next.splice(from, 1);
+    next.splice(targetIndex, 0, moved);
+    onChange(next);
+  };
+
+  const setRole = (id: string, role: ReferenceRole) =>
+    onChange(references.map((reference) => (reference.id === id ? { ...reference, role } : reference)));
+
+  const remove = (id: string) => onChange(references.filter((reference) => reference.id !== id));
+
+  return (
+    <div className="space-y-2">
+      {references.map((reference, index) => (
+        <div
+          key={reference.id}
+          draggable={!disabled}
+          onDragStart={() => setDragging(reference.id)}
+          onDragEnd={() => setDragging(null)}
+          onDragOver={(e) => {
+            e.preventDefault();
+            if (dragging) move(dragging, index);
+          }}
+          className={cn(
+            "glass rounded-lg p-2 border border-border/50 flex items-center gap-3",
+            dragging === reference.id && "opacity-50"
+          )}
+        >
+          <GripVertical className="w-4 h-4 shrink-0 text-muted-foreground cursor-grab" aria-hidden />
+          <img src={reference.image} alt={reference.fileName} className="w-12 h-12 rounded object-cover" />
+          <div className="flex-1 min-w-0 space-y-1">
+            <p className="text-sm font-medium truncate">
+              {reference.fileName}
+              {reference.id === maskedId && <span className="ml-2 text-xs text-primary">Masked</span>}
+            </p>
+            <Select
+              value={reference.role}
+              onValueChange={(role) => setRole(reference.id, role as ReferenceRole)}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-7 text-xs bg-input/50 border-border/50" aria-label="Image role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REFERENCE_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="shrink-0"
+            onClick={() => onEditMask(reference.id)}
+            disabled={disabled}
+            aria-label={`Paint a mask on ${reference.fileName}`}
+            title="Inpaint"
+          >
+            <Brush className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="shrink-0 hover:bg-destructive/10 hover:text-destructive"
+            onClick={() => remove(reference.id)}
+            disabled={disabled}
+            aria-label={`Remove ${reference.fileName}`}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReferenceImageList;
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Heart, Plus, Star, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { GenerationReview, MAX_TAGS, normalizeTag } from "@/lib/gallery";
+import { useGenerationTags } from "@/hooks/use-generation-tags";
+
+const RATINGS = [1, 2, 3, 4, 5];
+const MAX_SUGGESTIONS = 6;
+
+interface ReviewControlsProps {
+  review: GenerationReview;
+  onChange: (changes: Partial<GenerationReview>) => void;
+  className?: string;
+}
+
+// Favourite toggle, star rating and tags of a finished generation. Clicking
+// the current rating again clears it.
+const ReviewControls = ({ review, onChange, className }: ReviewControlsProps) => {
+  const { tags: knownTags } = useGenerationTags();
+  const [addingTag, setAddingTag] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [hoverRating, setHoverRating] = useState<number | null>(null);
+
+  const shownRating = hoverRating ?? review.rating ?? 0;
+  const query = normalizeTag(draft);
+  const suggestions = knownTags
+    .filter((tag) => !review.tags.includes(tag) && (!query || tag.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    setDraft("");
+    if (!tag || review.tags.includes(tag) || review.tags.length >= MAX_TAGS) return;
+    onChange({ tags: [...review.tags, tag] });
+  };
+
+  const removeTag = (tag: string) => onChange({ tags: review.tags.filter((t) => t !== tag) });
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && review.tags.length > 0) {
+      removeTag(review.tags[review.tags.length - 1]);
+    }
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title={review.favourite ? "Remove from favourites" : "Add to favourites"}
+          aria-pressed={review.favourite}
+          onClick={() => onChange({ favourite: !review.favourite })}
+        >
+          <Heart className={cn("w-4 h-4", review.favourite && "fill-primary text-primary")} />
+        </Button>
+        <div className="flex items-center" onMouseLeave={() => setHoverRating(null)}>
+          {RATINGS.map((rating) => (
+            <button
+              key={rating}
+              type="button"
+              className="p-0.5"
+              title={`${rating} ${rating === 1 ? "star" : "stars"}`}
+              aria-pressed={review.rating === rating}
+              onMouseEnter={() => setHoverRating(rating)}
+              onClick={() => onChange({ rating: review.rating === rating ? null : rating })}
+            >
+              <Star
+                className={cn(
+                  "w-4 h-4 transition-colors",
+                  rating <= shownRating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/50"
+                )}
+              />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {review.tags.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+            {tag}
+            <button type="button" title={`Remove ${tag}`} onClick={() => removeTag(tag)}>
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        {addingTag ? (
+          <div className="relative">
+            <Input
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onBlur={() => {
+                addTag(draft);
+                setAddingTag(false);
+              }}
+              placeholder="Add tag..."
+              className="h-7 w-32 text-xs"
+              aria-label="Add tag"
+            />
+            {suggestions.length > 0 && (
+              <div className="absolute left-0 top-full z-50 mt-1 w-40 rounded-md border bg-popover p-1 shadow-md">
+                {suggestions.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    className="block w-full truncate rounded-sm px-2 py-1 text-left text-xs hover:bg-accent"
+                    // Keep focus in the input so it doesn't blur first
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => addTag(tag)}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          review.tags.length < MAX_TAGS && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs text-muted-foreground"
+              onClick={() => setAddingTag(true)}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Tag
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewControls;
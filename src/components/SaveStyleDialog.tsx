@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { z } from "zod";
+import { CUSTOM_STYLE_PREFIX } from "@/hooks/use-style-presets";
+import { GENERATIONS_BUCKET } from "@/lib/generations";
+
+const styleSchema = z.object({
+  label: z.string().trim().min(2, "Name must be at least 2 characters").max(50),
+  emoji: z.string().trim().max(8).optional(),
+  promptFragment: z.string().trim().min(3, "Describe the style in a few words").max(500),
+  negativeFragment: z.string().trim().max(500).optional(),
+});
+
+interface Workspace {
+  id: string;
+  name: string;
+}
+
+interface SaveStyleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Current form values used to pre-fill the recipe
+  initialPromptFragment: string;
+  initialNegativeFragment: string;
+  referenceImage: string | null;
+  defaultParameters: Record<string, Json>;
+  onSaved: (slug: string) => void;
+}
+
+const SaveStyleDialog = ({
+  open,
+  onOpenChange,
+  initialPromptFragment,
+  initialNegativeFragment,
+  referenceImage,
+  defaultParameters,
+  onSaved,
+}: SaveStyleDialogProps) => {
+  const [label, setLabel] = useState("");
+  const [emoji, setEmoji] = useState("");
+  const [promptFragment, setPromptFragment] = useState("");
+  const [negativeFragment, setNegativeFragment] = useState("");
+  const [visibility, setVisibility] = useState("private");
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [useReference, setUseReference] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPromptFragment(initialPromptFragment);
+    setNegativeFragment(initialNegativeFragment);
+    setUseReference(!!referenceImage);
+
+    supabase
+      .from("workspaces")
+      .select("id, name")
+      .order("name", { ascending: true })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching workspaces:", error);
+          return;
+        }
+        setWorkspaces(data || []);
+        setWorkspaceId((current) => current ?? data?.[0]?.id ?? null);
+      });
+  }, [open, initialPromptFragment, initialNegativeFragment, referenceImage]);
+
+  const handleSave = async () => {
+    const parsed = styleSchema.safeParse({
+      label,
+      emoji: emoji || undefined,
+      promptFragment,
+      negativeFragment: negativeFragment || undefined,
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.errors[0].message);
+      return;
+    }
+    if (visibility === "workspace" && !workspaceId) {
+      toast.error("Choose a workspace to share with");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        toast.error("Please sign in to save styles");
+        return;
+      }
+
+      const id = crypto.randomUUID();
+      let referenceImagePath: string | null = null;
+
+      if (useReference && referenceImage) {
+        const blob = await (await fetch(referenceImage)).blob();
+        const extension = blob.type.split("/")[1] || "png";
+        referenceImagePath = `${user.id}/styles/${id}.${extension}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from(GENERATIONS_BUCKET)
+          .upload(referenceImagePath, blob, { contentType: blob.type });
+
+        if (uploadError) throw uploadError;
+      }
+
+      const { error: insertError } = await supabase.from("custom_styles").insert({
+        id,
+        owner_id: user.id,
+        label: parsed.data.label,
+        emoji: parsed.data.emoji || null,
+        prompt_fragment: parsed.data.promptFragment,
+        negative_fragment: parsed.data.negativeFragment || null,
+        reference_image_path: referenceImagePath,
+        default_parameters: defaultParameters,
+        visibility,
+        workspace_id: visibility === "workspace" ? workspaceId : null,
+      });
+
+      if (insertError) throw insertError;
+
+      toast.success("Style saved");
+      setLabel("");
+      setEmoji("");
+      onSaved(`${CUSTOM_STYLE_PREFIX}${id}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving style:", error);
+      toast.error("Failed to save style");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass border-border/50">
+        <DialogHeader>
+          <DialogTitle>Save as Style</DialogTitle>
+          <DialogDescription>
+            Save this recipe so you can pick it from the Style Preset list later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="space-y-2 w-20">
+              <Label htmlFor="style-emoji">Emoji</Label>
+              <Input
+                id="style-emoji"
+                placeholder="✨"
+                value={emoji}
+                onChange={(e) => setEmoji(e.target.value)}
+                className="bg-input/50 border-border/50"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="style-label">Name</Label>
+              <Input
+                id="style-label"
+                placeholder="Moody product shot"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="bg-input/50 border-border/50"
+                disabled={saving}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="style-fragment">Style prompt</Label>
+            <Textarea
+              id="style-fragment"
+              placeholder="soft studio lighting, muted palette, shallow depth of field"
+              value={promptFragment}
+              onChange={(e) => setPromptFragment(e.target.value)}
+              className="bg-input/50 border-border/50"
+              disabled={saving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="style-negative-fragment">Avoid (optional)</Label>
+            <Textarea
+              id="style-negative-fragment"
+              placeholder="harsh shadows, cluttered background"
+              value={negativeFragment}
+              onChange={(e) => setNegativeFragment(e.target.value)}
+              className="bg-input/50 border-border/50"
+              disabled={saving}
+            />
+          </div>
+
+          {referenceImage && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="style-reference"
+                checked={useReference}
+                onCheckedChange={(checked) => setUseReference(checked === true)}
+                disabled={saving}
+              />
+              <Label htmlFor="style-reference">Use uploaded photo as style reference</Label>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="style-visibility">Visibility</Label>
+            <Select value={visibility} onValueChange={setVisibility} disabled={saving}>
+              <SelectTrigger id="style-visibility" className="bg-input/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="private">Only me</SelectItem>
+                <SelectItem value="workspace" disabled={workspaces.length === 0}>
+                  Workspace
+                </SelectItem>
+                <SelectItem value="public">Everyone</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {visibility === "workspace" && (
+            <div className="space-y-2">
+              <Label htmlFor="style-workspace">Workspace</Label>
+              <Select value={workspaceId ?? undefined} onValueChange={setWorkspaceId} disabled={saving}>
+                <SelectTrigger id="style-workspace" className="bg-input/50 border-border/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaces.map((workspace) => (
+                    <SelectItem key={workspace.id} value={workspace.id}>
+                      {workspace.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            className="bg-gradient-to-r from-primary to-secondary hover:opacity-90 transition-opacity"
+            disabled={saving}
+          >
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Style
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveStyleDialog;
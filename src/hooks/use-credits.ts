@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Current generation credit balance for a user, kept live over Realtime
+export function useCredits(userId: string | undefined) {
+  const [credits, setCredits] = useState<number | null>(null);
+  const [plan, setPlan] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    supabase
+      .from("profiles")
+      .select("generation_credits, subscription_plan")
+      .eq("id", userId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching credits:", error);
+          return;
+        }
+        setCredits(data.generation_credits);
+        setPlan(data.subscription_plan);
+      });
+
+    const channel = supabase
+      .channel(`profile:${userId}`)
+      .on<{ generation_credits: number; subscription_plan: string | null }>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "profiles", filter: `id=eq.${userId}` },
+        (payload) => {
+          setCredits(payload.new.generation_credits);
+          setPlan(payload.new.subscription_plan);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  return { credits, plan };
+}
@@ -0,0 +1,130 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+
+export const STATUS_FILTERS = ["completed", "in_progress", "failed", "cancelled"] as const;
+export type StatusFilter = (typeof STATUS_FILTERS)[number];
+
+// Rows with each status filter
+export const STATUS_FILTER_VALUES: Record<StatusFilter, string[]> = {
+  completed: ["completed"],
+  in_progress: ["pending", "queued", "running"],
+  failed: ["failed"],
+  cancelled: ["cancelled"],
+};
+
+// generations.source_type: an edited upload, or text alone
+export const SOURCE_FILTERS = ["text", "edit"] as const;
+export type SourceFilter = (typeof SOURCE_FILTERS)[number];
+
+export const RATING_FILTERS = [1, 2, 3, 4, 5] as const;
+
+export const GALLERY_SORTS = ["newest", "oldest"] as const;
+export type GallerySort = (typeof GALLERY_SORTS)[number];
+
+export interface GalleryFilters {
+  // Full-text search over prompts
+  search: string;
+  style: string | null;
+  status: StatusFilter | null;
+  source: SourceFilter | null;
+  // Inclusive days, as yyyy-MM-dd in local time
+  from: string | null;
+  to: string | null;
+  favourites: boolean;
+  // Lowest rating shown; unrated generations are left out once set
+  minRating: number | null;
+  tag: string | null;
+  sort: GallerySort;
+}
+
+// Query string keys; defaults are left out of the URL
+const PARAMS: Record<keyof GalleryFilters, string> = {
+  search: "q",
+  style: "style",
+  status: "status",
+  source: "source",
+  from: "from",
+  to: "to",
+  favourites: "fav",
+  minRating: "rating",
+  tag: "tag",
+  sort: "sort",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const oneOf = <T extends string>(values: readonly T[], value: string | null): T | null =>
+  value && (values as readonly string[]).includes(value) ? (value as T) : null;
+
+function parseFilters(params: URLSearchParams): GalleryFilters {
+  const date = (key: string) => {
+    const value = params.get(key);
+    return value && DATE_PATTERN.test(value) ? value : null;
+  };
+  return {
+    search: params.get(PARAMS.search) ?? "",
+    style: params.get(PARAMS.style) || null,
+    status: oneOf(STATUS_FILTERS, params.get(PARAMS.status)),
+    source: oneOf(SOURCE_FILTERS, params.get(PARAMS.source)),
+    from: date(PARAMS.from),
+    to: date(PARAMS.to),
+    favourites: params.get(PARAMS.favourites) === "1",
+    minRating: RATING_FILTERS.find((rating) => String(rating) === params.get(PARAMS.minRating)) ?? null,
+    tag: params.get(PARAMS.tag) || null,
+    sort: oneOf(GALLERY_SORTS, params.get(PARAMS.sort)) ?? "newest",
+  };
+}
+
+// Anything narrowing the set or changing its order; new generations can't
+// simply be put on top of such a view
+export const isFiltered = (filters: GalleryFilters) =>
+  !!(
+    filters.search.trim() ||
+    filters.style ||
+    filters.status ||
+    filters.source ||
+    filters.from ||
+    filters.to ||
+    filters.favourites ||
+    filters.minRating ||
+    filters.tag
+  ) || filters.sort !== "newest";
+
+// Gallery filters kept in the query string, so views can be bookmarked and
+// shared between the toolbar and the gallery
+export function useGalleryFilters() {
+  const [params, setParams] = useSearchParams();
+  const filters = useMemo(() => parseFilters(params), [params]);
+
+  const setFilters = useCallback(
+    (changes: Partial<GalleryFilters>) =>
+      setParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          (Object.keys(changes) as (keyof GalleryFilters)[]).forEach((key) => {
+            const value = changes[key];
+            if (!value || (key === "sort" && value === "newest")) next.delete(PARAMS[key]);
+            else next.set(PARAMS[key], value === true ? "1" : String(value));
+          });
+          return next;
+        },
+        { replace: true }
+      ),
+    [setParams]
+  );
+
+  const clearFilters = useCallback(
+    () =>
+      setParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          Object.values(PARAMS).forEach((key) => next.delete(key));
+          return next;
+        },
+        { replace: true }
+      ),
+    [setParams]
+  );
+
+  return { filters, setFilters, clearFilters };
+}
@@ -0,0 +1,100 @@
+import { SetStateAction, useCallback, useState } from "react";
+import type { ReferenceUpload } from "@/components/ReferenceImageList";
+import {
+  AspectRatio,
+  DEFAULT_ASPECT_RATIO,
+  DEFAULT_EDIT_MODE,
+  DEFAULT_EDIT_STRENGTH,
+  DEFAULT_RESOLUTION,
+  EditMode,
+  GenerationParameters,
+  MASK_EDIT_MODES,
+} from "@/lib/generation-contract";
+
+export interface GenerationFormValues {
+  prompt: string;
+  negativePrompt: string;
+  style: string;
+  references: ReferenceUpload[];
+  // Inpainting mask for the first subject image
+  mask: { referenceId: string; dataUrl: string } | null;
+  aspectRatio: AspectRatio;
+  // Kept as typed so half-entered values aren't reformatted
+  customRatio: { width: string; height: string };
+  resolution: number;
+  imageCount: number;
+  editMode: EditMode;
+  strength: number;
+  // Generation being remixed; the result is linked to it as a child
+  remixOf: { id: string; prompt: string } | null;
+}
+
+const INITIAL_VALUES: GenerationFormValues = {
+  prompt: "",
+  negativePrompt: "",
+  style: "cinematic",
+  references: [],
+  mask: null,
+  aspectRatio: DEFAULT_ASPECT_RATIO,
+  customRatio: { width: "5", height: "4" },
+  resolution: DEFAULT_RESOLUTION,
+  imageCount: 1,
+  editMode: DEFAULT_EDIT_MODE,
+  strength: DEFAULT_EDIT_STRENGTH,
+  remixOf: null,
+};
+
+// What the gallery hands over when remixing a generation
+export interface RemixSource {
+  generationId: string;
+  prompt: string;
+  negativePrompt: string | null;
+  style: string;
+  parameters: GenerationParameters;
+  // The output as a data URL, to use as the new subject image
+  image?: string;
+}
+
+// State of GenerationForm, held by the page so other parts of it can fill
+// the form in
+export function useGenerationForm() {
+  const [values, setValues] = useState<GenerationFormValues>(INITIAL_VALUES);
+
+  const update = useCallback(
+    <K extends keyof GenerationFormValues>(key: K, value: SetStateAction<GenerationFormValues[K]>) =>
+      setValues((prev) => ({
+        ...prev,
+        [key]: typeof value === "function" ? (value as (prev: GenerationFormValues[K]) => GenerationFormValues[K])(prev[key]) : value,
+      })),
+    []
+  );
+
+  // Loads a generation's prompt, style and settings. Photo settings only
+  // carry over with the image; mask modes need a fresh mask.
+  const remix = useCallback((source: RemixSource) => {
+    const { parameters } = source;
+    setValues((prev) => ({
+      ...prev,
+      prompt: source.prompt,
+      negativePrompt: source.negativePrompt ?? "",
+      style: source.style,
+      references: source.image
+        ? [{ id: crypto.randomUUID(), image: source.image, fileName: "Remixed image", role: "subject" }]
+        : [],
+      mask: null,
+      aspectRatio: parameters.aspectRatio ?? DEFAULT_ASPECT_RATIO,
+      customRatio: parameters.customAspectRatio
+        ? { width: String(parameters.customAspectRatio.width), height: String(parameters.customAspectRatio.height) }
+        : prev.customRatio,
+      resolution: parameters.resolution ?? DEFAULT_RESOLUTION,
+      editMode:
+        parameters.editMode && !MASK_EDIT_MODES.includes(parameters.editMode) ? parameters.editMode : DEFAULT_EDIT_MODE,
+      strength: parameters.strength ?? DEFAULT_EDIT_STRENGTH,
+      remixOf: { id: source.generationId, prompt: source.prompt },
+    }));
+  }, []);
+
+  return { values, update, remix };
+}
+
+export type GenerationFormState = ReturnType<typeof useGenerationForm>;
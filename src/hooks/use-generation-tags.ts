@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const GENERATION_TAGS_QUERY_KEY = ["generation-tags"] as const;
+
+// Tags the signed-in user has put on generations, most used first
+export function useGenerationTags() {
+  const query = useQuery({
+    queryKey: GENERATION_TAGS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_generation_tags");
+      if (error) throw error;
+      return (data ?? []).map((row) => row.tag);
+    },
+  });
+
+  return { tags: query.data ?? [], loading: query.isPending };
+}
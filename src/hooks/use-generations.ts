@@ -0,0 +1,142 @@
+import { useCallback, useMemo } from "react";
+import { InfiniteData, keepPreviousData, useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Generation, GENERATION_COLUMNS, withSignedUrls } from "@/lib/gallery";
+import { GalleryFilters, isFiltered, STATUS_FILTER_VALUES } from "@/hooks/use-gallery-filters";
+
+export const GENERATIONS_QUERY_KEY = ["generations"] as const;
+const PAGE_SIZE = 24;
+// Signed URLs last an hour; refetch well before they run out
+const STALE_TIME_MS = 5 * 60 * 1000;
+
+// Position after the last row of a page, in created_at order with id as
+// tiebreaker
+interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+interface GenerationsPage {
+  generations: Generation[];
+  // Null once there is nothing further
+  nextCursor: Cursor | null;
+}
+
+type GenerationsData = InfiniteData<GenerationsPage, Cursor | null>;
+
+// Start of a local day, as an ISO timestamp
+const startOfDay = (day: string) => parseISO(day).toISOString();
+
+async function fetchGenerationsPage(filters: GalleryFilters, cursor: Cursor | null): Promise<GenerationsPage> {
+  const ascending = filters.sort === "oldest";
+  let query = supabase
+    .from("generations")
+    .select(GENERATION_COLUMNS)
+    .order("created_at", { ascending })
+    .order("id", { ascending })
+    .limit(PAGE_SIZE);
+
+  if (filters.search.trim()) {
+    query = query.textSearch("prompt_search", filters.search.trim(), { type: "websearch", config: "english" });
+  }
+  if (filters.style) query = query.eq("style", filters.style);
+  if (filters.status) query = query.in("status", STATUS_FILTER_VALUES[filters.status]);
+  if (filters.source) query = query.eq("source_type", filters.source);
+  if (filters.from) query = query.gte("created_at", startOfDay(filters.from));
+  if (filters.to) query = query.lt("created_at", startOfDay(format(addDays(parseISO(filters.to), 1), "yyyy-MM-dd")));
+  if (filters.favourites) query = query.eq("favourite", true);
+  if (filters.minRating) query = query.gte("rating", filters.minRating);
+  if (filters.tag) query = query.contains("tags", [filters.tag]);
+
+  if (cursor) {
+    const after = ascending ? "gt" : "lt";
+    query = query.or(
+      `created_at.${after}."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.${after}.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const last = rows[rows.length - 1];
+  return {
+    generations: await withSignedUrls(rows),
+    nextCursor: rows.length === PAGE_SIZE ? { createdAt: last.created_at, id: last.id } : null,
+  };
+}
+
+// The signed-in user's generations matching the gallery filters, a page at a
+// time. The update helpers edit the cached pages in place so live updates
+// don't refetch.
+export function useGenerations(filters: GalleryFilters) {
+  const queryClient = useQueryClient();
+  const queryKey = useMemo(() => [...GENERATIONS_QUERY_KEY, filters] as const, [filters]);
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => fetchGenerationsPage(filters, pageParam),
+    initialPageParam: null as Cursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    staleTime: STALE_TIME_MS,
+    // Keep showing the current view while a new filter loads
+    placeholderData: keepPreviousData,
+  });
+
+  const generations = useMemo(
+    () => query.data?.pages.flatMap((page) => page.generations) ?? [],
+    [query.data]
+  );
+
+  const updatePages = useCallback(
+    (update: (generations: Generation[], pageIndex: number) => Generation[]) =>
+      queryClient.setQueryData<GenerationsData>(queryKey, (data) =>
+        data && {
+          ...data,
+          pages: data.pages.map((page, index) => ({ ...page, generations: update(page.generations, index) })),
+        }
+      ),
+    [queryClient, queryKey]
+  );
+
+  const removeGenerations = useCallback(
+    (ids: string[]) => updatePages((page) => page.filter((generation) => !ids.includes(generation.id))),
+    [updatePages]
+  );
+
+  const patchGeneration = useCallback(
+    (id: string, patch: Partial<Generation>) =>
+      updatePages((page) => page.map((generation) => (generation.id === id ? { ...generation, ...patch } : generation))),
+    [updatePages]
+  );
+
+  // New rows go on top of the unfiltered view; a filtered view is refetched
+  // since only the database knows whether they match. Rows beyond the loaded
+  // pages are left for paging.
+  const upsertGeneration = useCallback(
+    (row: Generation, isNew: boolean) => {
+      const loaded = queryClient
+        .getQueryData<GenerationsData>(queryKey)
+        ?.pages.some((page) => page.generations.some((generation) => generation.id === row.id));
+      if (loaded) patchGeneration(row.id, row);
+      else if (isNew && isFiltered(filters)) queryClient.invalidateQueries({ queryKey });
+      else if (isNew) updatePages((page, index) => (index === 0 ? [row, ...page] : page));
+    },
+    [queryClient, queryKey, filters, patchGeneration, updatePages]
+  );
+
+  return {
+    generations,
+    loading: query.isPending,
+    // A new filter is loading while the previous results are still shown
+    updating: query.isPlaceholderData,
+    error: query.error,
+    hasMore: query.hasNextPage,
+    loadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
+    refetch: query.refetch,
+    removeGenerations,
+    patchGeneration,
+    upsertGeneration,
+  };
+}
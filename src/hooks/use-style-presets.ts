@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+// Custom styles are addressed as `custom:<uuid>` wherever a style slug is accepted
+export const CUSTOM_STYLE_PREFIX = "custom:";
+
+export interface StylePreset {
+  slug: string;
+  label: string;
+  emoji: string | null;
+  // Things the style avoids by default, merged with the user's negative prompt
+  negative_fragment: string | null;
+  preview_image_url: string | null;
+}
+
+export interface CustomStyle extends StylePreset {
+  id: string;
+  owner_id: string;
+  visibility: string;
+  default_parameters: Json;
+}
+
+export function useStylePresets() {
+  const [styles, setStyles] = useState<StylePreset[]>([]);
+  const [ownStyles, setOwnStyles] = useState<CustomStyle[]>([]);
+  const [sharedStyles, setSharedStyles] = useState<CustomStyle[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchStyles = useCallback(async () => {
+    try {
+      const [presets, custom, { data: { user } }] = await Promise.all([
+        supabase
+          .from("styles")
+          .select("slug, label, emoji, negative_fragment, preview_image_url")
+          .eq("enabled", true)
+          .order("sort_order", { ascending: true }),
+        // RLS limits this to the user's own, workspace-shared and public styles
+        supabase
+          .from("custom_styles")
+          .select("id, owner_id, label, emoji, negative_fragment, visibility, default_parameters")
+          .order("label", { ascending: true }),
+        supabase.auth.getUser(),
+      ]);
+
+      if (presets.error) throw presets.error;
+      if (custom.error) throw custom.error;
+
+      setStyles(presets.data || []);
+      const customStyles = (custom.data || []).map((style) => ({
+        ...style,
+        slug: `${CUSTOM_STYLE_PREFIX}${style.id}`,
+        preview_image_url: null,
+      }));
+      setOwnStyles(customStyles.filter((style) => style.owner_id === user?.id));
+      setSharedStyles(customStyles.filter((style) => style.owner_id !== user?.id));
+    } catch (error) {
+      console.error("Error fetching styles:", error);
+      toast.error("Failed to load style presets");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStyles();
+  }, [fetchStyles]);
+
+  return { styles, ownStyles, sharedStyles, loading, reload: fetchStyles };
+}
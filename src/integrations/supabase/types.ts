@@ -14,33 +14,264 @@ export type Database = {
   }
   public: {
     Tables: {
+      credit_ledger: {
+        Row: {
+          balance_after: number
+          created_at: string | null
+          delta: number
+          generation_id: string | null
+          id: string
+          reason: string
+          user_id: string
+        }
+        Insert: {
+          balance_after: number
+          created_at?: string | null
+          delta: number
+          generation_id?: string | null
+          id?: string
+          reason: string
+          user_id: string
+        }
+        Update: {
+          balance_after?: number
+          created_at?: string | null
+          delta?: number
+          generation_id?: string | null
+          id?: string
+          reason?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      custom_styles: {
+        Row: {
+          created_at: string | null
+          default_parameters: Json
+          emoji: string | null
+          id: string
+          label: string
+          negative_fragment: string | null
+          owner_id: string
+          prompt_fragment: string
+          reference_image_path: string | null
+          updated_at: string | null
+          visibility: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          default_parameters?: Json
+          emoji?: string | null
+          id?: string
+          label: string
+          negative_fragment?: string | null
+          owner_id: string
+          prompt_fragment: string
+          reference_image_path?: string | null
+          updated_at?: string | null
+          visibility?: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          default_parameters?: Json
+          emoji?: string | null
+          id?: string
+          label?: string
+          negative_fragment?: string | null
+          owner_id?: string
+          prompt_fragment?: string
+          reference_image_path?: string | null
+          updated_at?: string | null
+          visibility?: string
+          workspace_id?: string | null
+        }
+        Relationships: []
+      }
+      generation_attempts: {
+        Row: {
+          attempt: number
+          duration_ms: number
+          error_code: string | null
+          error_message: string | null
+          finished_at: string
+          generation_id: string
+          id: string
+          model: string | null
+          provider: string | null
+          retry_at: string | null
+          started_at: string
+          status: string
+        }
+        Insert: {
+          attempt: number
+          duration_ms: number
+          error_code?: string | null
+          error_message?: string | null
+          finished_at: string
+          generation_id: string
+          id?: string
+          model?: string | null
+          provider?: string | null
+          retry_at?: string | null
+          started_at: string
+          status: string
+        }
+        Update: {
+          attempt?: number
+          duration_ms?: number
+          error_code?: string | null
+          error_message?: string | null
+          finished_at?: string
+          generation_id?: string
+          id?: string
+          model?: string | null
+          provider?: string | null
+          retry_at?: string | null
+          started_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      generation_batches: {
+        Row: {
+          created_at: string | null
+          id: string
+          prompt: string
+          size: number
+          style: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          prompt: string
+          size: number
+          style: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          prompt?: string
+          size?: number
+          style?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       generations: {
         Row: {
+          attempts: number
+          batch_id: string | null
+          bytes: number | null
           created_at: string | null
+          derivation_type: string | null
+          error_code: string | null
+          error_message: string | null
+          favourite: boolean
+          finished_at: string | null
+          height: number | null
           id: string
           image_url: string | null
+          mask_path: string | null
+          max_attempts: number
+          mime_type: string | null
+          negative_prompt: string | null
+          next_attempt_at: string | null
+          parameters: Json
+          parent_id: string | null
           prompt: string
-          status: string | null
+          prompt_key: string | null
+          prompt_search: unknown | null
+          queued_at: string | null
+          rating: number | null
+          reference_images: Json
+          replay: Json | null
+          resolved_request: Json | null
+          source_type: string | null
+          started_at: string | null
+          status: string
+          storage_path: string | null
           style: string
+          tags: string[]
           user_id: string
+          width: number | null
         }
         Insert: {
+          attempts?: number
+          batch_id?: string | null
+          bytes?: number | null
           created_at?: string | null
+          derivation_type?: string | null
+          error_code?: string | null
+          error_message?: string | null
+          favourite?: boolean
+          finished_at?: string | null
+          height?: number | null
           id?: string
           image_url?: string | null
+          mask_path?: string | null
+          max_attempts?: number
+          mime_type?: string | null
+          negative_prompt?: string | null
+          next_attempt_at?: string | null
+          parameters?: Json
+          parent_id?: string | null
           prompt: string
-          status?: string | null
+          prompt_key?: string | null
+          prompt_search?: unknown | null
+          queued_at?: string | null
+          rating?: number | null
+          reference_images?: Json
+          replay?: Json | null
+          resolved_request?: Json | null
+          source_type?: string | null
+          started_at?: string | null
+          status?: string
+          storage_path?: string | null
           style: string
+          tags?: string[]
           user_id: string
+          width?: number | null
         }
         Update: {
+          attempts?: number
+          batch_id?: string | null
+          bytes?: number | null
           created_at?: string | null
+          derivation_type?: string | null
+          error_code?: string | null
+          error_message?: string | null
+          favourite?: boolean
+          finished_at?: string | null
+          height?: number | null
           id?: string
           image_url?: string | null
+          mask_path?: string | null
+          max_attempts?: number
+          mime_type?: string | null
+          negative_prompt?: string | null
+          next_attempt_at?: string | null
+          parameters?: Json
+          parent_id?: string | null
           prompt?: string
-          status?: string | null
+          prompt_key?: string | null
+          prompt_search?: unknown | null
+          queued_at?: string | null
+          rating?: number | null
+          reference_images?: Json
+          replay?: Json | null
+          resolved_request?: Json | null
+          source_type?: string | null
+          started_at?: string | null
+          status?: string
+          storage_path?: string | null
           style?: string
+          tags?: string[]
           user_id?: string
+          width?: number | null
         }
         Relationships: []
       }
@@ -50,7 +281,7 @@ export type Database = {
           created_at: string | null
           email: string
           full_name: string | null
-          generation_credits: number | null
+          generation_credits: number
           id: string
           subscription_plan: string | null
           updated_at: string | null
@@ -60,7 +291,7 @@ export type Database = {
           created_at?: string | null
           email: string
           full_name?: string | null
-          generation_credits?: number | null
+          generation_credits?: number
           id: string
           subscription_plan?: string | null
           updated_at?: string | null
@@ -70,19 +301,167 @@ export type Database = {
           created_at?: string | null
           email?: string
           full_name?: string | null
-          generation_credits?: number | null
+          generation_credits?: number
           id?: string
           subscription_plan?: string | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      styles: {
+        Row: {
+          created_at: string | null
+          emoji: string | null
+          enabled: boolean
+          label: string
+          negative_fragment: string | null
+          preview_image_url: string | null
+          prompt_fragment: string
+          slug: string
+          sort_order: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          emoji?: string | null
+          enabled?: boolean
+          label: string
+          negative_fragment?: string | null
+          preview_image_url?: string | null
+          prompt_fragment: string
+          slug: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          emoji?: string | null
+          enabled?: boolean
+          label?: string
+          negative_fragment?: string | null
+          preview_image_url?: string | null
+          prompt_fragment?: string
+          slug?: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      workspace_members: {
+        Row: {
+          created_at: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string | null
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: []
+      }
+      workspaces: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          owner_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          owner_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          owner_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      generation_ratings_by_prompt: {
+        Row: {
+          average_rating: number | null
+          favourites: number | null
+          generations: number | null
+          prompt: string | null
+          prompt_key: string | null
+          rated: number | null
+          styles: string[] | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      generation_ratings_by_style: {
+        Row: {
+          average_rating: number | null
+          favourites: number | null
+          generations: number | null
+          rated: number | null
+          style: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      cancel_generation: {
+        Args: { _generation_id: string }
+        Returns: boolean
+      }
+      claim_generation_jobs: {
+        Args: { _max_per_batch?: number; _max_running: number; _stale_after?: unknown }
+        Returns: Database["public"]["Tables"]["generations"]["Row"][]
+      }
+      debit_generation_credit: {
+        Args: { _amount?: number; _generation_id: string }
+        Returns: number
+      }
+      delete_generation: {
+        Args: { _generation_id: string }
+        Returns: string[]
+      }
+      fail_generation: {
+        Args: {
+          _error_code: string
+          _error_message: string
+          _generation_id: string
+          _resolved_request?: Json
+        }
+        Returns: boolean
+      }
+      generation_charge_outstanding: {
+        Args: { _generation_id: string }
+        Returns: number
+      }
+      get_generation_lineage: {
+        Args: { _generation_id: string }
+        Returns: Database["public"]["Tables"]["generations"]["Row"][]
+      }
+      get_generation_tags: {
+        Args: Record<PropertyKey, never>
+        Returns: { tag: string; uses: number }[]
+      }
+      is_workspace_member: {
+        Args: { _user_id: string; _workspace_id: string }
+        Returns: boolean
+      }
+      refund_generation_credit: {
+        Args: { _generation_id: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,79 @@
+import type { Json } from "@/integrations/supabase/types";
+import {
+  generationParametersSchema,
+  ImageDimensions,
+  ResolvedRequest,
+  resolveDimensions,
+} from "@/lib/generation-contract";
+import { createSignedImageUrls } from "@/lib/generations";
+
+// Columns the gallery needs; image_url is deliberately excluded since legacy
+// rows may still hold a multi-megabyte data URL there
+export const GENERATION_COLUMNS =
+  "id, batch_id, prompt, negative_prompt, style, parameters, resolved_request, status, error_code, error_message, attempts, max_attempts, created_at, storage_path, reference_images, mask_path, parent_id, derivation_type, mime_type, width, height, favourite, rating, tags";
+
+export interface Generation {
+  id: string;
+  batch_id: string | null;
+  prompt: string;
+  negative_prompt: string | null;
+  style: string;
+  parameters: Json;
+  resolved_request: Json;
+  status: string;
+  error_code: string | null;
+  error_message: string | null;
+  attempts: number;
+  max_attempts: number;
+  created_at: string;
+  storage_path: string | null;
+  reference_images: Json;
+  mask_path: string | null;
+  parent_id: string | null;
+  derivation_type: string | null;
+  mime_type: string | null;
+  width: number | null;
+  height: number | null;
+  favourite: boolean;
+  // 1-5, null until rated
+  rating: number | null;
+  tags: string[];
+  // Signed URL for storage_path, resolved after fetching
+  image_url: string | null;
+}
+
+// Resolves signed URLs for every row with a stored image in one request
+export const withSignedUrls = async (rows: Omit<Generation, "image_url">[]): Promise<Generation[]> => {
+  const signedUrls = await createSignedImageUrls(rows.map((g) => g.storage_path).filter(Boolean));
+  return rows.map((g) => ({
+    ...g,
+    image_url: g.storage_path ? signedUrls[g.storage_path] ?? null : null,
+  }));
+};
+
+export const requestedParameters = (generation: Generation) => {
+  const parsed = generationParametersSchema.safeParse(generation.parameters ?? {});
+  return parsed.success ? parsed.data : {};
+};
+
+export const resolvedRequestOf = (generation: Generation) =>
+  generation.resolved_request as unknown as ResolvedRequest | null;
+
+// Actual size once the image exists, otherwise the requested size so
+// placeholders already take the final shape
+export const cardDimensions = (generation: Generation): ImageDimensions =>
+  generation.width && generation.height
+    ? { width: generation.width, height: generation.height }
+    : resolveDimensions(requestedParameters(generation));
+
+
+// What the owner can change on a generation
+export type GenerationReview = Pick<Generation, "favourite" | "rating" | "tags">;
+
+// generations.tags is capped by a check constraint
+export const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+// Tags are compared as typed apart from case and spacing
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/\s+/g, " ").toLowerCase().slice(0, MAX_TAG_LENGTH);
@@ -0,0 +1,3 @@
+// The contract lives with the edge functions so Deno can bundle it; the web
+// client imports it through here.
+export * from "../../supabase/functions/_shared/contract.ts";
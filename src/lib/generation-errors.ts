@@ -0,0 +1,100 @@
+import type { ErrorCode } from "@/lib/generation-contract";
+
+export type GenerationErrorAction = "retry" | "rephrase" | "sign_in" | "none";
+
+export interface GenerationErrorDescription {
+  title: string;
+  description: string;
+  action: GenerationErrorAction;
+}
+
+const DESCRIPTIONS: Record<ErrorCode, GenerationErrorDescription> = {
+  UNAUTHENTICATED: {
+    title: "Your session has expired",
+    description: "Sign in again to keep generating.",
+    action: "sign_in",
+  },
+  FORBIDDEN: {
+    title: "Not your generation",
+    description: "This generation doesn't belong to your account.",
+    action: "none",
+  },
+  NOT_FOUND: {
+    title: "Generation not found",
+    description: "It may have been deleted. Start a new one instead.",
+    action: "none",
+  },
+  ALREADY_SUBMITTED: {
+    title: "Already submitted",
+    description: "This generation is already in progress.",
+    action: "none",
+  },
+  INVALID_INPUT: {
+    title: "Check your request",
+    description: "Some of the details weren't valid. Fix the highlighted fields and try again.",
+    action: "none",
+  },
+  INSUFFICIENT_CREDITS: {
+    title: "Out of credits",
+    description: "You don't have enough generation credits left. Your credits were not charged.",
+    action: "none",
+  },
+  RATE_LIMITED: {
+    title: "Too many requests",
+    description: "The image service is busy right now.",
+    action: "retry",
+  },
+  CONTENT_BLOCKED: {
+    title: "Blocked by the safety filter",
+    description: "The model refused this prompt. Try rephrasing it. Your credit was refunded.",
+    action: "rephrase",
+  },
+  PROVIDER_TIMEOUT: {
+    title: "The image service timed out",
+    description: "It took too long to respond. Your credit was refunded.",
+    action: "retry",
+  },
+  PROVIDER_UNAVAILABLE: {
+    title: "The image service is unavailable",
+    description: "Something went wrong on the provider's side. Your credit was refunded.",
+    action: "retry",
+  },
+  PROVIDER_QUOTA_EXCEEDED: {
+    title: "The image service is out of capacity",
+    description: "Our provider quota is used up. Please try again later. Your credit was refunded.",
+    action: "none",
+  },
+  NO_IMAGE_RETURNED: {
+    title: "No image was returned",
+    description: "The model answered without an image. Your credit was refunded.",
+    action: "retry",
+  },
+  GENERATION_TIMEOUT: {
+    title: "Generation timed out",
+    description: "The job didn't finish in time. Your credit was refunded.",
+    action: "retry",
+  },
+  NOT_SUBMITTED: {
+    title: "Generation was never submitted",
+    description: "The request didn't reach our servers.",
+    action: "retry",
+  },
+  INTERNAL_ERROR: {
+    title: "Generation failed",
+    description: "Something went wrong on our side. You were not charged for this image.",
+    action: "retry",
+  },
+};
+
+// User-facing explanation and recovery action for a failure code. Unknown or
+// missing codes (rows from before codes existed) read as INTERNAL_ERROR.
+export function describeGenerationError(
+  code: string | null | undefined,
+  retryAfter?: number
+): GenerationErrorDescription {
+  const description = DESCRIPTIONS[code as ErrorCode] ?? DESCRIPTIONS.INTERNAL_ERROR;
+  if (code === "RATE_LIMITED" && retryAfter) {
+    return { ...description, description: `${description.description} Try again in ${retryAfter} seconds.` };
+  }
+  return description;
+}
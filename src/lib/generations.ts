@@ -0,0 +1,150 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  BATCH_MAX_SIZE,
+  CONTRACT_VERSION,
+  GenerateImageErrorResponse,
+  GenerateImageQueuedResponse,
+  GenerateImageRequest,
+  generateImageRequestSchema,
+  ReferenceImage,
+  ReferenceRole,
+  toFieldErrors,
+} from "@/lib/generation-contract";
+
+export const GENERATIONS_BUCKET = "generations";
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// An entry of generations.reference_images
+export interface StoredReference {
+  path: string;
+  role: ReferenceRole;
+}
+
+export type GenerationInput = Omit<GenerateImageRequest, "version" | "generationId" | "batchId"> & {
+  // Number of images; more than one creates a batch
+  count?: number;
+};
+
+export interface SubmitGenerationResult {
+  ok: boolean;
+  // Null when the request was rejected before a row was created
+  generationId: string | null;
+  response?: GenerateImageQueuedResponse;
+  error?: GenerateImageErrorResponse;
+}
+
+// Validates the request, creates the pending row (or a batch of them) and
+// hands it to generate-image. Never throws for expected failures; those come back as
+// `{ ok: false }` with a contract error code.
+export async function submitGeneration({ count = 1, ...input }: GenerationInput): Promise<SubmitGenerationResult> {
+  const size = Math.min(Math.max(Math.round(count), 1), BATCH_MAX_SIZE);
+  const parsed = generateImageRequestSchema.safeParse({
+    ...input,
+    version: CONTRACT_VERSION,
+    generationId: crypto.randomUUID(),
+    batchId: size > 1 ? crypto.randomUUID() : undefined,
+  });
+
+  if (!parsed.success) {
+    return {
+      ok: false,
+      generationId: null,
+      error: { error: "Invalid request", code: "INVALID_INPUT", fieldErrors: toFieldErrors(parsed.error) },
+    };
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return {
+      ok: false,
+      generationId: null,
+      error: { error: "Please sign in to generate images", code: "UNAUTHENTICATED" },
+    };
+  }
+
+  const { generationId, batchId, prompt, style } = parsed.data;
+  if (batchId) {
+    const { error: batchError } = await supabase
+      .from("generation_batches")
+      .insert({ id: batchId, user_id: user.id, prompt, style, size });
+
+    if (batchError) throw batchError;
+  }
+
+  const ids = [generationId, ...Array.from({ length: size - 1 }, () => crypto.randomUUID())];
+  const { error: insertError } = await supabase
+    .from("generations")
+    .insert(ids.map((id) => ({
+      id,
+      user_id: user.id,
+      batch_id: batchId ?? null,
+      prompt,
+      style,
+      status: "pending",
+    })));
+
+  if (insertError) throw insertError;
+
+  const { data, error: functionError } = await supabase.functions.invoke<GenerateImageQueuedResponse>(
+    "generate-image",
+    { body: parsed.data }
+  );
+
+  if (functionError) {
+    const body: GenerateImageErrorResponse | null =
+      functionError instanceof FunctionsHttpError
+        ? await functionError.context.json().catch(() => null)
+        : null;
+
+    // generate-image fails the rows it rejects, but a request that never got
+    // an answer leaves them pending. Cancelling is a no-op for rows that
+    // already failed, and refunds any that were charged after all.
+    if (body?.code !== "ALREADY_SUBMITTED") {
+      const results = await Promise.all(ids.map((id) => supabase.rpc("cancel_generation", { _generation_id: id })));
+      results.forEach(({ error }) => error && console.error("Error cancelling generation:", error));
+    }
+
+    return {
+      ok: false,
+      generationId,
+      error: body?.code ? body : { error: functionError.message, code: "INTERNAL_ERROR" },
+    };
+  }
+
+  return { ok: true, generationId, response: data };
+}
+
+// Reads a stored object back as a data URL so it can be resubmitted
+export async function loadStoredImage(path: string): Promise<string> {
+  const { data, error } = await supabase.storage.from(GENERATIONS_BUCKET).download(path);
+  if (error) throw error;
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(data);
+  });
+}
+
+// Loads a generation's stored reference images back for resubmission
+export async function loadReferenceImages(stored: StoredReference[]): Promise<ReferenceImage[]> {
+  return Promise.all(stored.map(async ({ path, role }) => ({ image: await loadStoredImage(path), role })));
+}
+
+// Signed URLs for stored images in one request, keyed by path
+export async function createSignedImageUrls(paths: string[]): Promise<Record<string, string>> {
+  const signedUrls: Record<string, string> = {};
+  if (paths.length === 0) return signedUrls;
+
+  const { data, error } = await supabase.storage
+    .from(GENERATIONS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  data?.forEach((entry) => {
+    if (entry.path && entry.signedUrl) signedUrls[entry.path] = entry.signedUrl;
+  });
+  return signedUrls;
+}
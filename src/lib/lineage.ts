@@ -0,0 +1,78 @@
+import { DerivationType } from "@/lib/generation-contract";
+
+export const DERIVATION_LABELS: Record<DerivationType, string> = {
+  edit: "Edited from",
+  variation: "Variation of",
+  inpaint: "Inpainted from",
+  outpaint: "Extended from",
+  remix: "Remixed from",
+  reproduction: "Reproduced from",
+};
+
+export type LineageNode<T> = T & { children: LineageNode<T>[] };
+
+// Nests rows under their parents, oldest child first. Rows whose parent isn't
+// in the set are roots; normally there is exactly one.
+export function buildLineageTree<T extends { id: string; parent_id: string | null; created_at: string }>(
+  rows: T[],
+): LineageNode<T>[] {
+  const nodes = new Map<string, LineageNode<T>>();
+  [...rows]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach((row) => nodes.set(row.id, { ...row, children: [] }));
+
+  const roots: LineageNode<T>[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+  return roots;
+}
+
+export interface WordChange {
+  text: string;
+  change: "same" | "added" | "removed";
+}
+
+// Word-level diff of two prompts, via the longest common subsequence
+export function diffWords(before: string, after: string): WordChange[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  // common[i][j]: LCS length of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const changes: WordChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      changes.push({ text: a[i++], change: "same" });
+      j++;
+    } else if (j < b.length && (i === a.length || common[i][j + 1] >= common[i + 1][j])) {
+      changes.push({ text: b[j++], change: "added" });
+    } else {
+      changes.push({ text: a[i++], change: "removed" });
+    }
+  }
+  return changes;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Top-level fields whose values differ, in the order they first appear
+export function diffFields(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
@@ -0,0 +1,80 @@
+import type { ImageDimensions } from "@/lib/generation-contract";
+
+// How far to extend each side, as a fraction of the image's width (left/right)
+// or height (top/bottom)
+export interface Padding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export const NO_PADDING: Padding = { top: 0, right: 0, bottom: 0, left: 0 };
+
+// Larger canvases are scaled down; matches the largest supported resolution
+const MAX_CANVAS_EDGE = 2048;
+
+export const hasPadding = (padding: Padding) =>
+  padding.top > 0 || padding.right > 0 || padding.bottom > 0 || padding.left > 0;
+
+export function paddedSize({ width, height }: ImageDimensions, padding: Padding): ImageDimensions {
+  return {
+    width: width * (1 + padding.left + padding.right),
+    height: height * (1 + padding.top + padding.bottom),
+  };
+}
+
+// Padding that brings an image to `ratio` (width / height), split evenly
+// between the two sides that grow. Zero when the image is already wider or
+// taller than asked.
+export function paddingForRatio({ width, height }: ImageDimensions, ratio: number): Padding {
+  const current = width / height;
+  if (ratio > current) {
+    const extra = (height * ratio - width) / width / 2;
+    return { ...NO_PADDING, left: extra, right: extra };
+  }
+  const extra = (width / ratio - height) / height / 2;
+  return { ...NO_PADDING, top: extra, bottom: extra };
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load image"));
+    image.src = src;
+  });
+
+// The original on a grey canvas grown by `padding`, and a mask that is
+// transparent over the new border (see maskDataUrlSchema)
+export async function buildOutpaintCanvas(
+  imageDataUrl: string,
+  padding: Padding,
+): Promise<{ image: string; mask: string; size: ImageDimensions }> {
+  const source = await loadImage(imageDataUrl);
+  const full = paddedSize({ width: source.naturalWidth, height: source.naturalHeight }, padding);
+  const scale = Math.min(1, MAX_CANVAS_EDGE / Math.max(full.width, full.height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(full.width * scale);
+  canvas.height = Math.round(full.height * scale);
+  const ctx = canvas.getContext("2d")!;
+
+  const x = Math.round(source.naturalWidth * padding.left * scale);
+  const y = Math.round(source.naturalHeight * padding.top * scale);
+  const width = Math.round(source.naturalWidth * scale);
+  const height = Math.round(source.naturalHeight * scale);
+
+  ctx.fillStyle = "#808080";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, x, y, width, height);
+  // JPEG keeps large canvases under the upload limit
+  const image = canvas.toDataURL("image/jpeg", 0.92);
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = "#000";
+  ctx.fillRect(x, y, width, height);
+  const mask = canvas.toDataURL("image/png");
+
+  return { image, mask, size: { width: canvas.width, height: canvas.height } };
+}
@@ -1,17 +1,28 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { Sparkles, LogOut, User } from "lucide-react";
+import { Sparkles, LogOut, User, Coins } from "lucide-react";
 import { toast } from "sonner";
 import { Session } from "@supabase/supabase-js";
 import GenerationForm from "@/components/GenerationForm";
 import GenerationGallery from "@/components/GenerationGallery";
+import GalleryToolbar from "@/components/GalleryToolbar";
+import { useCredits } from "@/hooks/use-credits";
+import { RemixSource, useGenerationForm } from "@/hooks/use-generation-form";
+import { GENERATIONS_QUERY_KEY } from "@/hooks/use-generations";
 const Index = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
-  const [refreshKey, setRefreshKey] = useState(0);
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const generationForm = useGenerationForm();
+  const formRef = useRef<HTMLDivElement>(null);
+  const {
+    credits,
+    plan
+  } = useCredits(session?.user.id);
   useEffect(() => {
     // Set up auth state listener FIRST
     const {
@@ -50,8 +61,16 @@ const Index = () => {
       navigate("/auth");
     }
   };
-  const handleGenerationComplete = () => {
-    setRefreshKey(prev => prev + 1);
+  const refreshGallery = () => {
+    queryClient.invalidateQueries({
+      queryKey: GENERATIONS_QUERY_KEY
+    });
+  };
+  const handleRemix = (source: RemixSource) => {
+    generationForm.remix(source);
+    formRef.current?.scrollIntoView({
+      behavior: "smooth"
+    });
   };
   if (loading) {
     return <div className="min-h-screen flex items-center justify-center">
@@ -87,6 +106,12 @@ const Index = () => {
           </div>
 
           <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 px-3 py-2 glass rounded-lg" title={plan ? `${plan} plan` : undefined}>
+              <Coins className={`w-4 h-4 ${credits === 0 ? "text-destructive" : "text-primary"}`} />
+              <span className="text-sm text-muted-foreground">
+                {credits === null ? "..." : `${credits} ${credits === 1 ? "credit" : "credits"}`}
+              </span>
+            </div>
             <div className="flex items-center gap-2 px-3 py-2 glass rounded-lg">
               <User className="w-4 h-4 text-muted-foreground" />
               <span className="text-sm text-muted-foreground">{session.user.email}</span>
@@ -112,19 +137,20 @@ const Index = () => {
           </div>
 
           {/* Generation Form */}
-          <div className="max-w-2xl mx-auto">
-            <GenerationForm onGenerate={handleGenerationComplete} />
+          <div ref={formRef} className="max-w-2xl mx-auto scroll-mt-8">
+            <GenerationForm form={generationForm} onGenerate={refreshGallery} />
           </div>
 
           {/* Gallery Section */}
           <div className="space-y-6">
             <div className="flex items-center justify-between">
               <h3 className="text-2xl font-bold">Your Creations</h3>
-              <Button variant="outline" size="sm" onClick={() => setRefreshKey(prev => prev + 1)} className="glass">
+              <Button variant="outline" size="sm" onClick={refreshGallery} className="glass">
                 Refresh
               </Button>
             </div>
-            <GenerationGallery refresh={refreshKey} />
+            <GalleryToolbar />
+            <GenerationGallery onRemix={handleRemix} />
           </div>
         </div>
       </main>
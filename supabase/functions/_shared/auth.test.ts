@@ -0,0 +1,27 @@
+import { assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { checkGenerationAccess } from "./auth.ts";
+
+const OWNER = "11111111-1111-4111-8111-111111111111";
+const OTHER = "22222222-2222-4222-8222-222222222222";
+
+Deno.test("checkGenerationAccess allows the owner's pending generation", () => {
+  assertEquals(checkGenerationAccess({ user_id: OWNER, status: "pending" }, OWNER), "ok");
+});
+
+Deno.test("checkGenerationAccess reports a missing generation", () => {
+  assertEquals(checkGenerationAccess(null, OWNER), "not_found");
+});
+
+Deno.test("checkGenerationAccess forbids another user's generation", () => {
+  assertEquals(checkGenerationAccess({ user_id: OTHER, status: "pending" }, OWNER), "forbidden");
+});
+
+Deno.test("checkGenerationAccess forbids before reporting a conflict", () => {
+  assertEquals(checkGenerationAccess({ user_id: OTHER, status: "queued" }, OWNER), "forbidden");
+});
+
+Deno.test("checkGenerationAccess reports a generation that was already submitted", () => {
+  for (const status of ["queued", "running", "completed", "failed"]) {
+    assertEquals(checkGenerationAccess({ user_id: OWNER, status }, OWNER), "conflict");
+  }
+});
@@ -0,0 +1,27 @@
+import { ServiceClient } from "./supabase.ts";
+
+// Resolves the signed-in user from the request's bearer token. Returns null
+// for missing, expired or anon-key tokens.
+export async function getCaller(supabase: ServiceClient, req: Request) {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return data.user;
+}
+
+export type GenerationAccess = "ok" | "not_found" | "forbidden" | "conflict";
+
+// Decides whether `userId` may submit this generation row: it must exist,
+// belong to them and not have been submitted yet.
+export function checkGenerationAccess(
+  generation: { user_id: string; status: string } | null,
+  userId: string,
+): GenerationAccess {
+  if (!generation) return "not_found";
+  if (generation.user_id !== userId) return "forbidden";
+  if (generation.status !== "pending") return "conflict";
+  return "ok";
+}
@@ -0,0 +1,328 @@
+// Request/response contract for the generate-image function, shared by the
+// edge function and the web client (re-exported from src/lib/generation-contract.ts).
+// Keep this file free of Deno- or browser-only imports.
+import { z } from "zod";
+
+// 2: uploadedImage replaced by referenceImages
+export const CONTRACT_VERSION = 2;
+
+export const PROMPT_MIN_LENGTH = 3;
+export const PROMPT_MAX_LENGTH = 1000;
+export const NEGATIVE_PROMPT_MAX_LENGTH = 500;
+
+// Images per batch request
+export const BATCH_MAX_SIZE = 8;
+
+export const IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+export const IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+
+const DATA_URL_PATTERN = /^data:([a-z]+\/[a-z0-9.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+// Size of the decoded payload without decoding it
+function base64ByteLength(payload: string): number {
+  const padding = payload.endsWith("==") ? 2 : payload.endsWith("=") ? 1 : 0;
+  return Math.floor((payload.length * 3) / 4) - padding;
+}
+
+export const imageDataUrlSchema = z
+  .string()
+  .regex(DATA_URL_PATTERN, "Image must be a base64 data URL")
+  .refine(
+    (value) => (IMAGE_MIME_TYPES as readonly string[]).includes(DATA_URL_PATTERN.exec(value)?.[1] ?? ""),
+    "Invalid file type. Please upload a JPG, PNG, or WEBP image."
+  )
+  .refine(
+    (value) => base64ByteLength(DATA_URL_PATTERN.exec(value)?.[2] ?? "") <= IMAGE_MAX_BYTES,
+    `Image must be less than ${IMAGE_MAX_BYTES / 1024 / 1024}MB.`
+  );
+
+// What a reference image contributes. The first subject image is the one
+// edited; the rest are sent alongside to providers that take several images.
+export const REFERENCE_ROLES = ["subject", "style", "composition"] as const;
+export type ReferenceRole = (typeof REFERENCE_ROLES)[number];
+export const REFERENCE_IMAGES_MAX = 4;
+
+export const referenceImageSchema = z.object({
+  image: imageDataUrlSchema,
+  role: z.enum(REFERENCE_ROLES),
+});
+
+export type ReferenceImage = z.infer<typeof referenceImageSchema>;
+
+// Built-in slugs or `custom:<uuid>`; whether the style exists is checked server-side
+export const styleSlugSchema = z
+  .string()
+  .regex(/^(?:[a-z0-9-]{1,64}|custom:[0-9a-f-]{36})$/, "Choose a style preset");
+
+export const ASPECT_RATIOS = ["1:1", "4:3", "3:2", "16:9", "9:16", "custom"] as const;
+export type AspectRatio = (typeof ASPECT_RATIOS)[number];
+export const DEFAULT_ASPECT_RATIO: AspectRatio = "1:1";
+
+// Target length of the longer edge, in pixels
+export const RESOLUTIONS = [512, 1024, 1536, 2048] as const;
+export type Resolution = (typeof RESOLUTIONS)[number];
+export const DEFAULT_RESOLUTION: Resolution = 1024;
+
+export const SEED_MAX = 2 ** 31 - 1;
+
+// How an uploaded photo is used. The mask modes are set by the inpainting
+// and outpainting editors rather than picked directly.
+export const EDIT_MODES = ["style_transfer", "instruct", "variation", "reference", "inpaint", "outpaint"] as const;
+export type EditMode = (typeof EDIT_MODES)[number];
+export const MASK_EDIT_MODES: readonly EditMode[] = ["inpaint", "outpaint"];
+export const DEFAULT_EDIT_MODE: EditMode = "style_transfer";
+
+// 0 keeps the photo almost untouched, 1 lets the model depart from it freely
+export const DEFAULT_EDIT_STRENGTH = 0.6;
+
+// How a generation was made from its parent (generations.derivation_type)
+export const DERIVATION_TYPES = ["edit", "variation", "inpaint", "outpaint", "remix", "reproduction"] as const;
+export type DerivationType = (typeof DERIVATION_TYPES)[number];
+
+const MAX_CUSTOM_RATIO = 4;
+
+export const customAspectRatioSchema = z
+  .object({
+    width: z.number().int().min(1).max(32),
+    height: z.number().int().min(1).max(32),
+  })
+  .refine(
+    ({ width, height }) => Math.max(width, height) / Math.min(width, height) <= MAX_CUSTOM_RATIO,
+    `Aspect ratio can be at most ${MAX_CUSTOM_RATIO}:1`
+  );
+
+export type CustomAspectRatio = z.infer<typeof customAspectRatioSchema>;
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Pixel size for a ratio and resolution, rounded to multiples of 64 as most
+// models require
+export function resolveDimensions({
+  aspectRatio = DEFAULT_ASPECT_RATIO,
+  customAspectRatio,
+  resolution = DEFAULT_RESOLUTION,
+}: {
+  aspectRatio?: AspectRatio;
+  customAspectRatio?: CustomAspectRatio;
+  resolution?: number;
+}): ImageDimensions {
+  const [ratioWidth, ratioHeight] =
+    aspectRatio === "custom" && customAspectRatio
+      ? [customAspectRatio.width, customAspectRatio.height]
+      : aspectRatio === "custom"
+        ? [1, 1]
+        : aspectRatio.split(":").map(Number);
+
+  const shortEdge = Math.max(64, Math.round((resolution * Math.min(ratioWidth, ratioHeight)) / Math.max(ratioWidth, ratioHeight) / 64) * 64);
+  return ratioWidth >= ratioHeight
+    ? { width: resolution, height: shortEdge }
+    : { width: shortEdge, height: resolution };
+}
+
+// Nearest ratio of small integers that customAspectRatioSchema accepts
+export function closestCustomRatio({ width, height }: ImageDimensions): CustomAspectRatio {
+  const target = Math.min(Math.max(width / height, 1 / MAX_CUSTOM_RATIO), MAX_CUSTOM_RATIO);
+  let best = { width: 1, height: 1 };
+  for (let h = 1; h <= 32; h++) {
+    const w = Math.round(target * h);
+    if (w < 1 || w > 32) continue;
+    if (Math.abs(Math.log(w / h / target)) < Math.abs(Math.log(best.width / best.height / target))) {
+      best = { width: w, height: h };
+    }
+  }
+  return best;
+}
+
+// "16:9" for presets, "7:5" for custom ratios
+export function aspectRatioLabel(aspectRatio: AspectRatio, customAspectRatio?: CustomAspectRatio): string {
+  if (aspectRatio !== "custom") return aspectRatio;
+  return customAspectRatio ? `${customAspectRatio.width}:${customAspectRatio.height}` : DEFAULT_ASPECT_RATIO;
+}
+
+// Generation settings that custom styles can provide defaults for. Unset
+// fields fall back to the style's defaults, then 1:1 at 1024px.
+const parameterFields = {
+  provider: z.string().max(32).optional(),
+  aspectRatio: z.enum(ASPECT_RATIOS).optional(),
+  customAspectRatio: customAspectRatioSchema.optional(),
+  resolution: z
+    .number()
+    .refine((value) => (RESOLUTIONS as readonly number[]).includes(value), "Choose a supported resolution")
+    .optional(),
+  // Only used when a photo is uploaded
+  editMode: z.enum(EDIT_MODES).optional(),
+  strength: z.number().min(0).max(1).optional(),
+  // Only honoured by providers that support seeds
+  seed: z.number().int().min(0).max(SEED_MAX).optional(),
+};
+
+// PNG the size of the edited image; fully transparent pixels mark the area to
+// repaint, opaque pixels are kept (the OpenAI Images API convention)
+export const maskDataUrlSchema = imageDataUrlSchema.refine(
+  (value) => value.startsWith("data:image/png;"),
+  "Mask must be a PNG image"
+);
+
+function requireCustomRatio(parameters: { aspectRatio?: AspectRatio; customAspectRatio?: CustomAspectRatio }, ctx: z.RefinementCtx) {
+  if (parameters.aspectRatio === "custom" && !parameters.customAspectRatio) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["customAspectRatio"],
+      message: "Enter a width and height for the custom aspect ratio",
+    });
+  }
+}
+
+export const generationParametersSchema = z.object(parameterFields).superRefine(requireCustomRatio);
+
+export type GenerationParameters = z.infer<typeof generationParametersSchema>;
+
+// Everything that went into a provider call, stored on
+// generations.resolved_request by the worker
+export interface ResolvedRequest {
+  contractVersion: number;
+  functionVersion: string;
+  provider: string;
+  model: string;
+  style: string;
+  enhancedPrompt: string;
+  // Combined user and style negative prompt; folded into enhancedPrompt when
+  // the provider has no native parameter
+  negativePrompt: string | null;
+  nativeNegativePrompt: boolean;
+  // Null when the provider doesn't support seeds
+  seed: number | null;
+  parameters: GenerationParameters;
+  size: ImageDimensions;
+  // Hash of the edited subject image, if any
+  sourceImageSha256: string | null;
+  maskSha256: string | null;
+  // The other images actually sent, in order, including the style's own reference
+  referenceImages: { role: ReferenceRole; sha256: string }[];
+}
+
+// Upper bound for replayed prompts, which include the style's fragments
+const REPLAY_PROMPT_MAX_LENGTH = 4000;
+
+// Prompt and model recorded in an earlier run's resolved request. A
+// reproduction sends them so the worker uses them as they were instead of
+// rebuilding them from the style and provider as they are now.
+export const replaySchema = z.object({
+  enhancedPrompt: z.string().min(1).max(REPLAY_PROMPT_MAX_LENGTH),
+  negativePrompt: z.string().max(REPLAY_PROMPT_MAX_LENGTH).nullable(),
+  model: z.string().min(1).max(128),
+});
+
+export type Replay = z.infer<typeof replaySchema>;
+
+export const generateImageRequestSchema = z
+  .object({
+    version: z.literal(CONTRACT_VERSION).default(CONTRACT_VERSION),
+    generationId: z.string().uuid(),
+    // Queues every pending generation in the batch; generationId must be one of them
+    batchId: z.string().uuid().optional(),
+    prompt: z
+      .string()
+      .trim()
+      .min(PROMPT_MIN_LENGTH, `Prompt must be at least ${PROMPT_MIN_LENGTH} characters`)
+      .max(PROMPT_MAX_LENGTH, `Prompt must be at most ${PROMPT_MAX_LENGTH} characters`),
+    negativePrompt: z
+      .string()
+      .trim()
+      .max(NEGATIVE_PROMPT_MAX_LENGTH, `Negative prompt must be at most ${NEGATIVE_PROMPT_MAX_LENGTH} characters`)
+      .optional(),
+    style: styleSlugSchema,
+    // In priority order
+    referenceImages: z
+      .array(referenceImageSchema)
+      .max(REFERENCE_IMAGES_MAX, `Upload at most ${REFERENCE_IMAGES_MAX} images`)
+      .optional(),
+    // Inpainting or outpainting mask for the first subject image
+    mask: maskDataUrlSchema.optional(),
+    // Generation this one was derived from, and how; must belong to the caller
+    parentId: z.string().uuid().optional(),
+    derivationType: z.enum(DERIVATION_TYPES).optional(),
+    // Only for reproductions; must match the original's resolved request
+    replay: replaySchema.optional(),
+    ...parameterFields,
+  })
+  .superRefine(requireCustomRatio)
+  .superRefine((request, ctx) => {
+    const masked = request.editMode !== undefined && MASK_EDIT_MODES.includes(request.editMode);
+    if (masked && !request.mask) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["mask"], message: "Paint the area to change" });
+    }
+    if (!masked && request.mask) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["editMode"], message: "A mask can only be used for inpainting or outpainting" });
+    }
+    if (request.mask && !request.referenceImages?.some((reference) => reference.role === "subject")) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["referenceImages"], message: "A mask needs a subject image" });
+    }
+    if (!request.parentId !== !request.derivationType) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [request.parentId ? "derivationType" : "parentId"],
+        message: "A derived generation needs both its original and how it was derived",
+      });
+    }
+    if (request.replay && request.derivationType !== "reproduction") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["replay"], message: "Only a reproduction can replay a recorded request" });
+    }
+    if (request.replay && !request.provider) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["provider"], message: "A replayed request needs the provider it was recorded with" });
+    }
+  });
+
+export type GenerateImageRequest = z.input<typeof generateImageRequestSchema>;
+export type ParsedGenerateImageRequest = z.output<typeof generateImageRequestSchema>;
+
+export type FieldErrors = Partial<Record<keyof GenerateImageRequest, string[]>>;
+
+// Machine-readable failure reasons, returned by generate-image and persisted
+// on generations.error_code by the worker
+export const ERROR_CODES = [
+  "UNAUTHENTICATED",
+  "FORBIDDEN",
+  "NOT_FOUND",
+  "ALREADY_SUBMITTED",
+  "INVALID_INPUT",
+  "INSUFFICIENT_CREDITS",
+  "RATE_LIMITED",
+  "CONTENT_BLOCKED",
+  "PROVIDER_TIMEOUT",
+  "PROVIDER_UNAVAILABLE",
+  "PROVIDER_QUOTA_EXCEEDED",
+  "NO_IMAGE_RETURNED",
+  "GENERATION_TIMEOUT",
+  "NOT_SUBMITTED",
+  "INTERNAL_ERROR",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export interface GenerateImageQueuedResponse {
+  success: true;
+  status: "queued";
+  credits: number;
+  // Generations queued by this request; fewer than the batch size when
+  // credits ran out part way
+  queued: number;
+}
+
+export interface GenerateImageErrorResponse {
+  error: string;
+  code: ErrorCode;
+  // Seconds to wait before retrying; set with RATE_LIMITED
+  retryAfter?: number;
+  // Present on 400s; keyed by request field so the form can show them inline
+  fieldErrors?: FieldErrors;
+}
+
+export type GenerateImageResponse = GenerateImageQueuedResponse | GenerateImageErrorResponse;
+
+export function toFieldErrors(error: z.ZodError): FieldErrors {
+  return error.flatten().fieldErrors as FieldErrors;
+}
@@ -0,0 +1,38 @@
+import { ErrorCode } from "./contract.ts";
+import { ProviderError } from "./providers/index.ts";
+
+// A failure with a code from the shared contract; anything else thrown during
+// a generation is reported as INTERNAL_ERROR
+export class GenerationError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = "GenerationError";
+  }
+}
+
+export function toGenerationError(error: unknown): GenerationError {
+  if (error instanceof GenerationError) return error;
+
+  if (error instanceof ProviderError) {
+    switch (error.code) {
+      case "rate_limited":
+        return new GenerationError("RATE_LIMITED", "Rate limit exceeded. Please try again later.", error.retryAfter);
+      case "quota_exceeded":
+        return new GenerationError("PROVIDER_QUOTA_EXCEEDED", "AI credits depleted. Please add more credits.");
+      case "content_blocked":
+        return new GenerationError("CONTENT_BLOCKED", error.message);
+      case "timeout":
+        return new GenerationError("PROVIDER_TIMEOUT", error.message);
+      case "no_image":
+        return new GenerationError("NO_IMAGE_RETURNED", error.message);
+      default:
+        return new GenerationError("PROVIDER_UNAVAILABLE", error.message);
+    }
+  }
+
+  return new GenerationError("INTERNAL_ERROR", error instanceof Error ? error.message : "Unknown error");
+}
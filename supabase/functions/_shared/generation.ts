@@ -0,0 +1,288 @@
+import {
+  aspectRatioLabel,
+  CONTRACT_VERSION,
+  DEFAULT_EDIT_MODE,
+  DEFAULT_EDIT_STRENGTH,
+  GenerationParameters,
+  generationParametersSchema,
+  MASK_EDIT_MODES,
+  ReferenceImage,
+  ReferenceRole,
+  Replay,
+  ResolvedRequest,
+  resolveDimensions,
+  SEED_MAX,
+} from "./contract.ts";
+import { GenerationError, toGenerationError } from "./errors.ts";
+import { sha256Hex } from "./images.ts";
+import { ImageProvider, resolveFallbackProvider, resolveProvider } from "./providers/index.ts";
+import { isRetryable, retryDelaySeconds } from "./retry.ts";
+import { isInFolder, loadStoredImage, removeStoredImages, storeGenerationImage } from "./storage.ts";
+import { resolveStyle } from "./styles.ts";
+import { ServiceClient } from "./supabase.ts";
+
+// Recorded with every resolved request; bump when prompt assembly or provider
+// handling changes in a way that affects output
+export const RUNNER_VERSION = "2025.12.08";
+
+// An entry of generations.reference_images
+export interface StoredReference {
+  path: string;
+  role: ReferenceRole;
+}
+
+// A claimed row from claim_generation_jobs
+export interface GenerationJob {
+  id: string;
+  user_id: string;
+  prompt: string;
+  negative_prompt: string | null;
+  style: string;
+  parameters: Record<string, unknown>;
+  reference_images: StoredReference[];
+  mask_path: string | null;
+  replay: Replay | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+// Custom style defaults overlaid with the job's own values. Style defaults are
+// user-supplied JSON, so they are dropped if they don't validate.
+function resolveParameters(styleDefaults: Record<string, unknown>, jobParameters: Record<string, unknown>): GenerationParameters {
+  const merged = generationParametersSchema.safeParse({ ...styleDefaults, ...jobParameters });
+  if (merged.success) return merged.data;
+
+  console.warn("Ignoring invalid style default parameters:", merged.error.message);
+  const own = generationParametersSchema.safeParse(jobParameters);
+  return own.success ? own.data : {};
+}
+
+// Stored inputs are read with the service role, so only objects in the job
+// owner's folder may be used
+function assertOwnPath(job: GenerationJob, path: string) {
+  if (!isInFolder(path, `${job.user_id}/`)) {
+    throw new GenerationError("INVALID_INPUT", "Input image doesn't belong to this generation's owner");
+  }
+}
+
+async function recordAttempt(
+  supabase: ServiceClient,
+  job: GenerationJob,
+  attempt: {
+    provider: ImageProvider | null;
+    startedAt: Date;
+    errorCode?: string;
+    errorMessage?: string;
+    retryAt?: Date;
+  },
+) {
+  const finishedAt = new Date();
+  const { error } = await supabase.from("generation_attempts").insert({
+    generation_id: job.id,
+    attempt: job.attempts,
+    provider: attempt.provider?.id ?? null,
+    model: attempt.provider?.model ?? null,
+    status: attempt.errorCode ? "failed" : "succeeded",
+    error_code: attempt.errorCode ?? null,
+    error_message: attempt.errorMessage ?? null,
+    retry_at: attempt.retryAt?.toISOString() ?? null,
+    started_at: attempt.startedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    duration_ms: finishedAt.getTime() - attempt.startedAt.getTime(),
+  });
+  if (error) console.error("Error recording generation attempt:", error);
+}
+
+// Runs one claimed job and records the outcome on its row. Retryable failures
+// are requeued with backoff until max_attempts; retries switch to the fallback
+// provider when one is configured. Writes are guarded on status = 'running'
+// so a job cancelled mid-flight is left alone.
+export async function runGeneration(supabase: ServiceClient, job: GenerationJob): Promise<void> {
+  const startedAt = new Date();
+  let provider: ImageProvider | null = null;
+  let resolvedRequest: ResolvedRequest | null = null;
+
+  try {
+    // generate-image charges every job it queues; anything else got into the
+    // queue some other way
+    const { data: outstanding, error: chargeError } = await supabase.rpc("generation_charge_outstanding", {
+      _generation_id: job.id,
+    });
+    if (chargeError) throw chargeError;
+    if ((outstanding ?? 0) <= 0) {
+      throw new GenerationError("INSUFFICIENT_CREDITS", "Generation was queued without being paid for");
+    }
+
+    const stylePreset = await resolveStyle(supabase, job.style, job.user_id);
+    if (!stylePreset) {
+      throw new GenerationError("INVALID_INPUT", `Unknown style: ${job.style}`);
+    }
+
+    const parameters = resolveParameters(stylePreset.default_parameters, job.parameters);
+    // The first subject image is edited; without one this is text-to-image
+    const subjectIndex = job.reference_images.findIndex((reference) => reference.role === "subject");
+    // Record the effective edit settings, not just the requested ones
+    if (subjectIndex >= 0) {
+      parameters.editMode ??= DEFAULT_EDIT_MODE;
+      parameters.strength ??= DEFAULT_EDIT_STRENGTH;
+    }
+    // A replay keeps its recorded model, so it never switches to the fallback
+    const primary = resolveProvider(parameters.provider, { model: job.replay?.model });
+    provider = job.attempts > 1 && !job.replay ? resolveFallbackProvider(primary.id) ?? primary : primary;
+
+    const size = resolveDimensions(parameters);
+    // Providers without native sizing get the framing described in the prompt
+    const framing = provider.capabilities.aspectRatio
+      ? ""
+      : ` Aspect ratio ${aspectRatioLabel(parameters.aspectRatio ?? "1:1", parameters.customAspectRatio)}, ${size.width}x${size.height} pixels.`;
+    // The user's negative prompt first, then the style's defaults. Replays use
+    // the recorded prompts as they are, even if the style has changed since.
+    const negativePrompt = job.replay
+      ? job.replay.negativePrompt ?? undefined
+      : [job.negative_prompt, stylePreset.negative_fragment].filter(Boolean).join(", ") || undefined;
+    const avoid = negativePrompt && !provider.capabilities.negativePrompt ? ` Avoid: ${negativePrompt}.` : "";
+    const enhancedPrompt = job.replay?.enhancedPrompt
+      ?? `${job.prompt}. Style: ${stylePreset.prompt_fragment}.${framing} Ultra high resolution, masterpiece quality.${avoid}`;
+    job.reference_images.forEach(({ path }) => assertOwnPath(job, path));
+    const uploaded: ReferenceImage[] = await Promise.all(
+      job.reference_images.map(async ({ path, role }) => ({ role, image: await loadStoredImage(supabase, path) }))
+    );
+    const sourceImage = subjectIndex >= 0 ? uploaded[subjectIndex].image : null;
+    if (job.mask_path) assertOwnPath(job, job.mask_path);
+    const mask = sourceImage && parameters.editMode && MASK_EDIT_MODES.includes(parameters.editMode) && job.mask_path
+      ? await loadStoredImage(supabase, job.mask_path)
+      : undefined;
+    // The user's other images in their order, then the style's own reference
+    const candidates: ReferenceImage[] = [
+      ...uploaded.filter((_, index) => index !== subjectIndex),
+      ...(stylePreset.reference_image ? [{ role: "style" as const, image: stylePreset.reference_image }] : []),
+    ];
+    const references = candidates.slice(0, provider.capabilities.referenceImages);
+    if (references.length < candidates.length) {
+      console.warn(`${provider.id} takes ${provider.capabilities.referenceImages} reference images; dropping ${candidates.length - references.length}`);
+    }
+
+    // Pick a seed up front so even unseeded requests can be reproduced
+    const seed = provider.capabilities.seed
+      ? parameters.seed ?? Math.floor(Math.random() * SEED_MAX)
+      : undefined;
+
+    resolvedRequest = {
+      contractVersion: CONTRACT_VERSION,
+      functionVersion: RUNNER_VERSION,
+      provider: provider.id,
+      model: provider.model,
+      style: stylePreset.slug,
+      enhancedPrompt,
+      negativePrompt: negativePrompt ?? null,
+      nativeNegativePrompt: !!negativePrompt && provider.capabilities.negativePrompt,
+      seed: seed ?? null,
+      parameters,
+      size,
+      sourceImageSha256: sourceImage ? await sha256Hex(sourceImage) : null,
+      maskSha256: mask ? await sha256Hex(mask) : null,
+      referenceImages: await Promise.all(
+        references.map(async ({ role, image }) => ({ role, sha256: await sha256Hex(image) }))
+      ),
+    };
+
+    console.log("Generating image with prompt:", enhancedPrompt);
+    console.log("Using provider:", provider.id, provider.model, "seed:", seed ?? "n/a");
+    if (resolvedRequest.nativeNegativePrompt) console.log("Negative prompt:", negativePrompt);
+    console.log("Has source image:", !!sourceImage, "references:", references.map((reference) => reference.role));
+
+    const input = { prompt: enhancedPrompt, references, size, negativePrompt, seed };
+    const result = sourceImage
+      ? await provider.edit({
+        ...input,
+        image: sourceImage,
+        // Defaulted above whenever there is a subject image
+        mode: parameters.editMode ?? DEFAULT_EDIT_MODE,
+        strength: parameters.strength ?? DEFAULT_EDIT_STRENGTH,
+        mask,
+      })
+      : await provider.generate(input);
+
+    console.log("Image generated successfully", job.id);
+
+    // Upload to storage and keep only the object path on the row
+    const stored = await storeGenerationImage(supabase, {
+      userId: job.user_id,
+      generationId: job.id,
+      dataUrl: result.dataUrl,
+    });
+
+    const { data: updated, error: updateError } = await supabase
+      .from("generations")
+      .update({
+        ...stored,
+        image_url: null,
+        resolved_request: resolvedRequest,
+        status: "completed",
+        error_code: null,
+        error_message: null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .select("id");
+
+    if (updateError) throw updateError;
+
+    await recordAttempt(supabase, job, { provider, startedAt });
+
+    if (!updated?.length) {
+      console.log("Generation was cancelled while running", job.id);
+      await removeStoredImages(supabase, [stored.storage_path]);
+    }
+  } catch (error) {
+    console.error("Error running generation", job.id, error);
+    const failure = toGenerationError(error);
+
+    if (isRetryable(failure.code) && job.attempts < job.max_attempts) {
+      const retryAt = new Date(Date.now() + retryDelaySeconds(job.attempts, failure.retryAfter) * 1000);
+      await recordAttempt(supabase, job, {
+        provider,
+        startedAt,
+        errorCode: failure.code,
+        errorMessage: failure.message,
+        retryAt,
+      });
+
+      const { error: requeueError } = await supabase
+        .from("generations")
+        .update({
+          status: "queued",
+          error_code: failure.code,
+          error_message: failure.message,
+          queued_at: new Date().toISOString(),
+          next_attempt_at: retryAt.toISOString(),
+        })
+        .eq("id", job.id)
+        .eq("status", "running");
+
+      if (requeueError) console.error("Error requeueing generation:", requeueError);
+      else console.log("Generation requeued", job.id, "retry at", retryAt.toISOString());
+      return;
+    }
+
+    await recordAttempt(supabase, job, {
+      provider,
+      startedAt,
+      errorCode: failure.code,
+      errorMessage: failure.message,
+    });
+
+    // Refunds along with the status change; cancelled jobs were already
+    // refunded by cancel_generation. If this fails the job stays running and
+    // the reaper fails and refunds it.
+    const { error: failError } = await supabase.rpc("fail_generation", {
+      _generation_id: job.id,
+      _error_code: failure.code,
+      _error_message: failure.message,
+      _resolved_request: resolvedRequest,
+    });
+
+    if (failError) console.error("Error marking generation failed:", failError);
+  }
+}
@@ -0,0 +1,99 @@
+import { decode as decodeBase64 } from "https://deno.land/std@0.177.0/encoding/base64.ts";
+
+export interface DecodedImage {
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/svg+xml": "svg",
+};
+
+export function extensionFor(mimeType: string): string {
+  return EXTENSIONS[mimeType] || "bin";
+}
+
+// Hex SHA-256 of the decoded bytes, so identical inputs can be recognised
+export async function sha256Hex(dataUrl: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", decodeDataUrl(dataUrl).bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function decodeDataUrl(dataUrl: string): DecodedImage {
+  const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error("Image is not a data URL");
+  }
+  const [, mimeType, isBase64, payload] = match;
+  const bytes = isBase64
+    ? decodeBase64(payload)
+    : new TextEncoder().encode(decodeURIComponent(payload));
+  return { mimeType, bytes };
+}
+
+// Reads dimensions straight from the file header; returns null for formats we
+// don't recognise rather than failing the generation.
+export function readImageSize({ mimeType, bytes }: DecodedImage): ImageSize | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  switch (mimeType) {
+    case "image/png":
+      if (bytes.length < 24) return null;
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+
+    case "image/gif":
+      if (bytes.length < 10) return null;
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+
+    case "image/jpeg": {
+      let offset = 2;
+      while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1];
+        // SOF0..SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+      }
+      return null;
+    }
+
+    case "image/webp": {
+      if (bytes.length < 30) return null;
+      const chunk = new TextDecoder().decode(bytes.subarray(12, 16));
+      if (chunk === "VP8 ") {
+        return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+      }
+      if (chunk === "VP8L") {
+        const bits = view.getUint32(21, true);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === "VP8X") {
+        const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+        const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+        return { width, height };
+      }
+      return null;
+    }
+
+    case "image/svg+xml": {
+      const svg = new TextDecoder().decode(bytes.subarray(0, 512));
+      const width = /\bwidth="(\d+)"/.exec(svg);
+      const height = /\bheight="(\d+)"/.exec(svg);
+      return width && height ? { width: Number(width[1]), height: Number(height[1]) } : null;
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,21 @@
+import type { EditMode } from "../contract.ts";
+
+const MODE_INSTRUCTIONS: Record<EditMode, string> = {
+  style_transfer: "Redraw the provided image in the requested style, keeping its subject and composition.",
+  instruct: "Edit the provided image as described, changing only what the instructions ask for.",
+  variation: "Create a variation of the provided image with the same subject and mood.",
+  reference: "Use the provided image only as loose inspiration for a new image.",
+  inpaint: "Repaint only the masked region of the provided image as described; keep everything else exactly as it is.",
+  outpaint: "Extend the provided image into the masked border, continuing the scene seamlessly; keep the original area exactly as it is.",
+};
+
+// Wording for providers without native edit modes or strength
+export function describeEdit(mode: EditMode, strength: number): string {
+  const degree =
+    strength < 0.35
+      ? "Keep changes subtle and stay very close to the original."
+      : strength < 0.7
+        ? "Make moderate changes while keeping the original recognisable."
+        : "Feel free to depart substantially from the original.";
+  return `${MODE_INSTRUCTIONS[mode]} ${degree}`;
+}
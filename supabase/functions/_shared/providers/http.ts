@@ -0,0 +1,47 @@
+import { ProviderError, ProviderErrorCode } from "./types.ts";
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+const CONTENT_BLOCKED_PATTERN = /content[ _]?policy|moderation|safety|blocked/i;
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+// fetch with a timeout; timeouts and network failures surface as ProviderError
+export async function fetchWithTimeout(label: string, url: string, init: RequestInit): Promise<Response> {
+  const timeoutMs = Number(Deno.env.get("PROVIDER_TIMEOUT_MS")) || DEFAULT_TIMEOUT_MS;
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new ProviderError(`${label} timed out after ${timeoutMs / 1000}s`, 0, "timeout");
+    }
+    throw new ProviderError(`${label} request failed: ${error instanceof Error ? error.message : error}`, 0, "unavailable");
+  }
+}
+
+// Classifies a non-2xx upstream response
+export async function errorFromResponse(label: string, response: Response): Promise<ProviderError> {
+  const errorText = await response.text();
+  console.error(`${label} error:`, response.status, errorText);
+
+  let code: ProviderErrorCode;
+  if (response.status === 429) code = "rate_limited";
+  else if (response.status === 402) code = "quota_exceeded";
+  else if (response.status === 408 || response.status === 504) code = "timeout";
+  else if (response.status >= 400 && response.status < 500 && CONTENT_BLOCKED_PATTERN.test(errorText)) code = "content_blocked";
+  else if (response.status >= 400 && response.status < 500) code = "bad_request";
+  else code = "unavailable";
+
+  return new ProviderError(
+    `${label} error: ${response.status}`,
+    response.status,
+    code,
+    parseRetryAfter(response.headers.get("retry-after")),
+  );
+}
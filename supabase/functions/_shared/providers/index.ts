@@ -0,0 +1,35 @@
+import { createLovableProvider } from "./lovable.ts";
+import { createMockProvider } from "./mock.ts";
+import { createOpenAIProvider } from "./openai.ts";
+import { ImageProvider, ProviderOptions } from "./types.ts";
+
+export * from "./types.ts";
+
+const PROVIDERS: Record<string, (options?: ProviderOptions) => ImageProvider> = {
+  lovable: createLovableProvider,
+  openai: createOpenAIProvider,
+  mock: createMockProvider,
+};
+
+export const DEFAULT_PROVIDER = "lovable";
+
+export function isProviderId(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, id);
+}
+
+// Per-request choice wins, then IMAGE_PROVIDER, then the Lovable gateway
+export function resolveProvider(requested?: string, options?: ProviderOptions): ImageProvider {
+  const id = requested || Deno.env.get("IMAGE_PROVIDER") || DEFAULT_PROVIDER;
+  if (!isProviderId(id)) {
+    throw new Error(`Unknown image provider: ${id}`);
+  }
+  return PROVIDERS[id](options);
+}
+
+// Secondary provider for retries, from IMAGE_PROVIDER_FALLBACK. Null when
+// unset, unknown or the same as the primary.
+export function resolveFallbackProvider(primaryId: string): ImageProvider | null {
+  const id = Deno.env.get("IMAGE_PROVIDER_FALLBACK");
+  if (!id || id === primaryId || !isProviderId(id)) return null;
+  return PROVIDERS[id]();
+}
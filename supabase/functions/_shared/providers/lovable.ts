@@ -0,0 +1,92 @@
+import { ReferenceImage, ReferenceRole } from "../contract.ts";
+import { describeEdit } from "./edit.ts";
+import { errorFromResponse, fetchWithTimeout } from "./http.ts";
+import { ImageProvider, ProviderError, ProviderOptions } from "./types.ts";
+
+const GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const DEFAULT_MODEL = "google/gemini-2.5-flash-image-preview";
+const MAX_REFERENCE_IMAGES = 4;
+
+const REFERENCE_LABELS: Record<ReferenceRole, string> = {
+  subject: "Include this subject:",
+  style: "Match the visual style of this reference image, not its content:",
+  composition: "Follow the composition and pose of this image, not its style:",
+};
+
+type ContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } };
+
+export function createLovableProvider(options: ProviderOptions = {}): ImageProvider {
+  const apiKey = Deno.env.get("LOVABLE_API_KEY");
+  if (!apiKey) {
+    throw new Error("LOVABLE_API_KEY is not configured");
+  }
+  const model = options.model || Deno.env.get("LOVABLE_IMAGE_MODEL") || DEFAULT_MODEL;
+
+  // Each image is preceded by a line saying what it is for
+  const referenceParts = (references: ReferenceImage[] = []): ContentPart[] =>
+    references.flatMap(({ image, role }): ContentPart[] => [
+      { type: "text", text: REFERENCE_LABELS[role] },
+      { type: "image_url", image_url: { url: image } },
+    ]);
+
+  // No native mask support; the mask goes along as a described image
+  const maskParts = (mask?: string): ContentPart[] =>
+    mask
+      ? [
+          { type: "text", text: "Mask: the transparent area is the region to repaint; the opaque area must stay unchanged." },
+          { type: "image_url", image_url: { url: mask } },
+        ]
+      : [];
+
+  const complete = async (content: string | ContentPart[]) => {
+    const response = await fetchWithTimeout("AI Gateway", GATEWAY_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content }],
+        modalities: ["image", "text"],
+      }),
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse("AI Gateway", response);
+    }
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    const dataUrl = choice?.message?.images?.[0]?.image_url?.url;
+    if (!dataUrl) {
+      // Safety filters answer 200 with text only
+      const finishReason = String(choice?.finish_reason ?? choice?.native_finish_reason ?? "").toLowerCase();
+      if (/content_filter|safety|prohibited|blocklist/.test(finishReason)) {
+        throw new ProviderError("The prompt was blocked by the model's safety filter", response.status, "content_blocked");
+      }
+      throw new ProviderError("No image generated", response.status, "no_image");
+    }
+
+    return { dataUrl, model };
+  };
+
+  return {
+    id: "lovable",
+    model,
+    capabilities: { textToImage: true, imageEdit: true, referenceImages: MAX_REFERENCE_IMAGES, aspectRatio: false, negativePrompt: false, seed: false, inpainting: false },
+    generate: ({ prompt, references }) =>
+      complete(
+        references?.length
+          ? [{ type: "text", text: prompt }, ...referenceParts(references)]
+          : prompt
+      ),
+    edit: ({ prompt, image, references, mode, strength, mask }) =>
+      complete([
+        { type: "text", text: `${describeEdit(mode, strength)} ${prompt}` },
+        { type: "image_url", image_url: { url: image } },
+        ...maskParts(mask),
+        ...referenceParts(references),
+      ]),
+  };
+}
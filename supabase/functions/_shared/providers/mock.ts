@@ -0,0 +1,45 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.177.0/encoding/base64.ts";
+import { EditImageInput, GenerateImageInput, ImageProvider } from "./types.ts";
+
+// Offline stand-in: renders the prompt onto a flat SVG so the whole flow can be
+// exercised without network access or API keys.
+export function createMockProvider(): ImageProvider {
+  const model = "mock/placeholder-svg";
+
+  const escape = (text: string) =>
+    text
+      .slice(0, 60)
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+
+  const render = ({ prompt, size, negativePrompt, seed = 0 }: GenerateImageInput) => {
+    const { width, height } = size ?? { width: 1024, height: 1024 };
+    let hash = seed;
+    for (const char of prompt) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    const hue = hash % 360;
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<rect width="100%" height="100%" fill="hsl(${hue}, 60%, 45%)"/>` +
+      `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="32" text-anchor="middle">${escape(prompt)}</text>` +
+      (negativePrompt
+        ? `<text x="50%" y="58%" fill="#fff" font-family="sans-serif" font-size="20" text-anchor="middle">not: ${escape(negativePrompt)}</text>`
+        : "") +
+      `</svg>`;
+    return {
+      dataUrl: `data:image/svg+xml;base64,${encodeBase64(new TextEncoder().encode(svg))}`,
+      model,
+    };
+  };
+
+  return {
+    id: "mock",
+    model,
+    capabilities: { textToImage: true, imageEdit: true, referenceImages: 0, aspectRatio: true, negativePrompt: true, seed: true, inpainting: true },
+    generate: async (input) => render(input),
+    edit: async ({ mode, strength, mask: _mask, ...input }: EditImageInput) =>
+      render({ ...input, prompt: `[${mode} ${strength.toFixed(2)}] ${input.prompt}` }),
+  };
+}
@@ -0,0 +1,93 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.177.0/encoding/base64.ts";
+import { describeEdit } from "./edit.ts";
+import { errorFromResponse, fetchWithTimeout } from "./http.ts";
+import { ImageProvider, ProviderError, ProviderOptions } from "./types.ts";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-image-1";
+
+// Sizes accepted by gpt-image-1; requests snap to the closest ratio
+const SUPPORTED_SIZES = [
+  { width: 1024, height: 1024 },
+  { width: 1536, height: 1024 },
+  { width: 1024, height: 1536 },
+];
+
+function closestSize(size?: { width: number; height: number }): string {
+  if (!size) return "auto";
+  const ratio = size.width / size.height;
+  const best = SUPPORTED_SIZES.reduce((a, b) =>
+    Math.abs(Math.log(a.width / a.height / ratio)) <= Math.abs(Math.log(b.width / b.height / ratio)) ? a : b
+  );
+  return `${best.width}x${best.height}`;
+}
+
+// Works against any server exposing the OpenAI Images API
+// (`/images/generations` and `/images/edits`).
+export function createOpenAIProvider(options: ProviderOptions = {}): ImageProvider {
+  const apiKey = Deno.env.get("OPENAI_IMAGES_API_KEY");
+  if (!apiKey) {
+    throw new Error("OPENAI_IMAGES_API_KEY is not configured");
+  }
+  const baseUrl = (Deno.env.get("OPENAI_IMAGES_BASE_URL") || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const model = options.model || Deno.env.get("OPENAI_IMAGES_MODEL") || DEFAULT_MODEL;
+
+  const readImage = async (response: Response) => {
+    if (!response.ok) {
+      throw await errorFromResponse("OpenAI images", response);
+    }
+
+    const data = await response.json();
+    const image = data.data?.[0];
+    if (image?.b64_json) {
+      return { dataUrl: `data:image/png;base64,${image.b64_json}`, model };
+    }
+    if (image?.url) {
+      const download = await fetchWithTimeout("OpenAI image download", image.url, {});
+      // Retryable whatever the status: a new attempt gets a fresh URL
+      if (!download.ok) {
+        throw new ProviderError(`OpenAI image download error: ${download.status}`, download.status, "unavailable");
+      }
+      const mimeType = download.headers.get("content-type") || "image/png";
+      const bytes = new Uint8Array(
+        await download.arrayBuffer().catch((error) => {
+          throw new ProviderError(`OpenAI image download failed: ${error instanceof Error ? error.message : error}`, 0, "unavailable");
+        })
+      );
+      return { dataUrl: `data:${mimeType};base64,${encodeBase64(bytes)}`, model };
+    }
+    throw new ProviderError("No image generated", response.status, "no_image");
+  };
+
+  return {
+    id: "openai",
+    model,
+    capabilities: { textToImage: true, imageEdit: true, referenceImages: 0, aspectRatio: true, negativePrompt: false, seed: false, inpainting: true },
+    generate: async ({ prompt, size }) => {
+      const response = await fetchWithTimeout("OpenAI images", `${baseUrl}/images/generations`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model, prompt, n: 1, size: closestSize(size) }),
+      });
+      return readImage(response);
+    },
+    edit: async ({ prompt, image, size, mode, strength, mask }) => {
+      // The Images API has no strength or mode parameters
+      const form = new FormData();
+      form.append("model", model);
+      form.append("prompt", `${describeEdit(mode, strength)} ${prompt}`);
+      form.append("size", closestSize(size));
+      form.append("image", await (await fetch(image)).blob(), "image.png");
+      if (mask) form.append("mask", await (await fetch(mask)).blob(), "mask.png");
+      const response = await fetchWithTimeout("OpenAI images", `${baseUrl}/images/edits`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: form,
+      });
+      return readImage(response);
+    },
+  };
+}
@@ -0,0 +1,85 @@
+// Contract every image backend implements so generate-image can swap models
+// without touching request handling.
+import type { EditMode, ReferenceImage } from "../contract.ts";
+
+export interface ProviderCapabilities {
+  textToImage: boolean;
+  imageEdit: boolean;
+  // How many extra reference images (beyond the edited image) one call can take
+  referenceImages: number;
+  // Honours `size` natively; otherwise the runner describes it in the prompt
+  aspectRatio: boolean;
+  // Takes `negativePrompt` as its own parameter; otherwise the runner folds it
+  // into the prompt
+  negativePrompt: boolean;
+  // Deterministic for a given `seed`; otherwise seeds aren't recorded
+  seed: boolean;
+  // Applies `mask` natively; otherwise it is sent as a described extra image
+  inpainting: boolean;
+}
+
+export interface GenerateImageInput {
+  prompt: string;
+  // Extra images as data URLs, in priority order; the runner trims the list
+  // to capabilities.referenceImages
+  references?: ReferenceImage[];
+  // Requested output size; providers snap it to the sizes they support
+  size?: { width: number; height: number };
+  // What to keep out of the image; ignored unless capabilities.negativePrompt
+  negativePrompt?: string;
+  // Ignored unless capabilities.seed
+  seed?: number;
+}
+
+export interface EditImageInput extends GenerateImageInput {
+  // Source image as a data URL
+  image: string;
+  mode: EditMode;
+  // 0–1; how far the result may depart from `image`
+  strength: number;
+  // PNG data URL, transparent where the image should be repainted
+  mask?: string;
+}
+
+export interface GeneratedImage {
+  // Result image as a data URL
+  dataUrl: string;
+  model: string;
+}
+
+export interface ProviderOptions {
+  // Overrides the configured model, e.g. to replay a recorded request
+  model?: string;
+}
+
+export interface ImageProvider {
+  readonly id: string;
+  readonly model: string;
+  readonly capabilities: ProviderCapabilities;
+  generate(input: GenerateImageInput): Promise<GeneratedImage>;
+  edit(input: EditImageInput): Promise<GeneratedImage>;
+}
+
+export type ProviderErrorCode =
+  | "rate_limited"
+  | "quota_exceeded"
+  | "content_blocked"
+  | "timeout"
+  | "no_image"
+  | "bad_request"
+  | "unavailable";
+
+// Raised when the upstream API rejects a call or returns nothing usable;
+// `status` is the upstream HTTP status (0 when no response arrived)
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: ProviderErrorCode,
+    // Seconds, from the upstream Retry-After header
+    public readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
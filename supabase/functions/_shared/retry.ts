@@ -0,0 +1,23 @@
+import { ErrorCode } from "./contract.ts";
+
+const RETRYABLE_CODES: ErrorCode[] = [
+  "RATE_LIMITED",
+  "PROVIDER_TIMEOUT",
+  "PROVIDER_UNAVAILABLE",
+  "NO_IMAGE_RETURNED",
+];
+
+const BASE_DELAY_SECONDS = 5;
+const MAX_DELAY_SECONDS = 300;
+
+export function isRetryable(code: ErrorCode): boolean {
+  return RETRYABLE_CODES.includes(code);
+}
+
+// Exponential backoff with jitter for the attempt that just failed (1-based),
+// never sooner than the provider's Retry-After
+export function retryDelaySeconds(attempt: number, retryAfter?: number): number {
+  const ceiling = Math.min(MAX_DELAY_SECONDS, BASE_DELAY_SECONDS * 2 ** (attempt - 1));
+  const jittered = ceiling / 2 + Math.random() * (ceiling / 2);
+  return Math.ceil(Math.max(jittered, retryAfter ?? 0));
+}
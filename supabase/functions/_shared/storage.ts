@@ -0,0 +1,87 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.177.0/encoding/base64.ts";
+import { decodeDataUrl, extensionFor, readImageSize } from "./images.ts";
+import { ServiceClient } from "./supabase.ts";
+
+export const GENERATIONS_BUCKET = "generations";
+
+export interface StoredImage {
+  storage_path: string;
+  mime_type: string;
+  bytes: number;
+  width: number | null;
+  height: number | null;
+}
+
+// Objects live under `<user_id>/` so the bucket's RLS policies can scope reads
+// to the owner.
+export async function storeGenerationImage(
+  supabase: ServiceClient,
+  { userId, generationId, dataUrl }: { userId: string; generationId: string; dataUrl: string },
+): Promise<StoredImage> {
+  return storeImage(supabase, `${userId}/${generationId}`, dataUrl);
+}
+
+// Reference images uploaded with a request, stored as `sources/<sourceId>/<index>`.
+// `sourceId` is the generation id, or the batch id when a batch shares the images.
+export async function storeReferenceImage(
+  supabase: ServiceClient,
+  { userId, sourceId, index, dataUrl }: { userId: string; sourceId: string; index: number; dataUrl: string },
+): Promise<StoredImage> {
+  return storeImage(supabase, `${userId}/sources/${sourceId}/${index}`, dataUrl);
+}
+
+// Inpainting mask, stored next to the reference images it applies to
+export async function storeMaskImage(
+  supabase: ServiceClient,
+  { userId, sourceId, dataUrl }: { userId: string; sourceId: string; dataUrl: string },
+): Promise<StoredImage> {
+  return storeImage(supabase, `${userId}/sources/${sourceId}/mask`, dataUrl);
+}
+
+async function storeImage(supabase: ServiceClient, pathWithoutExtension: string, dataUrl: string): Promise<StoredImage> {
+  const image = decodeDataUrl(dataUrl);
+  const path = `${pathWithoutExtension}.${extensionFor(image.mimeType)}`;
+
+  const { error } = await supabase.storage
+    .from(GENERATIONS_BUCKET)
+    .upload(path, image.bytes, { contentType: image.mimeType, upsert: true });
+
+  if (error) {
+    console.error("Error uploading image:", error);
+    throw error;
+  }
+
+  const size = readImageSize(image);
+  return {
+    storage_path: path,
+    mime_type: image.mimeType,
+    bytes: image.bytes.byteLength,
+    width: size?.width ?? null,
+    height: size?.height ?? null,
+  };
+}
+
+// Whether `path` lies under `folder` (e.g. `<user_id>/`). Paths stored on rows
+// are read back with the service role, so they must be checked against the
+// row's owner first or a user could point them at someone else's objects.
+export function isInFolder(path: string, folder: string): boolean {
+  return path.startsWith(folder) && !path.split("/").includes("..");
+}
+
+// Reads an object from the generations bucket back as a data URL for providers
+export async function loadStoredImage(supabase: ServiceClient, path: string): Promise<string> {
+  const { data, error } = await supabase.storage.from(GENERATIONS_BUCKET).download(path);
+
+  if (error) {
+    console.error("Error downloading stored image:", error);
+    throw error;
+  }
+
+  const bytes = new Uint8Array(await data.arrayBuffer());
+  return `data:${data.type || "image/png"};base64,${encodeBase64(bytes)}`;
+}
+
+export async function removeStoredImages(supabase: ServiceClient, paths: string[]): Promise<void> {
+  const { error } = await supabase.storage.from(GENERATIONS_BUCKET).remove(paths);
+  if (error) console.error("Error removing stored images:", error);
+}
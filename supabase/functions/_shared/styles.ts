@@ -0,0 +1,89 @@
+import { isInFolder, loadStoredImage } from "./storage.ts";
+import { ServiceClient } from "./supabase.ts";
+
+// Custom styles are addressed as `custom:<uuid>` wherever a style slug is accepted
+export const CUSTOM_STYLE_PREFIX = "custom:";
+
+export interface ResolvedStyle {
+  slug: string;
+  label: string;
+  prompt_fragment: string;
+  negative_fragment: string | null;
+  // Data URL of the style's reference image, if it has one
+  reference_image: string | null;
+  default_parameters: Record<string, unknown>;
+}
+
+// Returns null for unknown, disabled or inaccessible styles so callers can
+// reject the request. The service client bypasses RLS, so custom style
+// visibility is checked here against `userId`.
+export async function resolveStyle(
+  supabase: ServiceClient,
+  slug: string,
+  userId: string,
+): Promise<ResolvedStyle | null> {
+  if (slug.startsWith(CUSTOM_STYLE_PREFIX)) {
+    return resolveCustomStyle(supabase, slug.slice(CUSTOM_STYLE_PREFIX.length), userId);
+  }
+
+  const { data, error } = await supabase
+    .from("styles")
+    .select("slug, label, prompt_fragment, negative_fragment")
+    .eq("slug", slug)
+    .eq("enabled", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading style:", error);
+    throw error;
+  }
+
+  return data ? { ...data, reference_image: null, default_parameters: {} } : null;
+}
+
+async function resolveCustomStyle(
+  supabase: ServiceClient,
+  id: string,
+  userId: string,
+): Promise<ResolvedStyle | null> {
+  const { data, error } = await supabase
+    .from("custom_styles")
+    .select("id, owner_id, label, prompt_fragment, negative_fragment, reference_image_path, default_parameters, visibility, workspace_id")
+    .eq("id", id)
+    .maybeSingle();
+
+  // Malformed ids surface as a Postgres cast error; treat them as unknown
+  if (error && error.code !== "22P02") {
+    console.error("Error loading custom style:", error);
+    throw error;
+  }
+  if (!data) return null;
+
+  let accessible = data.owner_id === userId || data.visibility === "public";
+  if (!accessible && data.visibility === "workspace" && data.workspace_id) {
+    const { data: isMember, error: memberError } = await supabase.rpc("is_workspace_member", {
+      _workspace_id: data.workspace_id,
+      _user_id: userId,
+    });
+    if (memberError) throw memberError;
+    accessible = !!isMember;
+  }
+  if (!accessible) return null;
+
+  // Also a check constraint; the image is read with the service role
+  if (data.reference_image_path && !isInFolder(data.reference_image_path, `${data.owner_id}/styles/`)) {
+    console.warn("Custom style reference image is outside its owner's folder:", data.id);
+    return null;
+  }
+
+  return {
+    slug: `${CUSTOM_STYLE_PREFIX}${data.id}`,
+    label: data.label,
+    prompt_fragment: data.prompt_fragment,
+    negative_fragment: data.negative_fragment,
+    reference_image: data.reference_image_path
+      ? await loadStoredImage(supabase, data.reference_image_path)
+      : null,
+    default_parameters: data.default_parameters ?? {},
+  };
+}
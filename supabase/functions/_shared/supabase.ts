@@ -0,0 +1,10 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+// Service-role client; bypasses RLS, so callers must scope every query themselves
+export function createServiceClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+export type ServiceClient = ReturnType<typeof createServiceClient>;
@@ -0,0 +1,92 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { storeGenerationImage } from "../_shared/storage.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+const DEFAULT_BATCH_SIZE = 20;
+
+// One-off migration: uploads legacy base64 rows to Storage in batches, in id
+// order. Pass the returned `cursor` as `after` to continue past rows that
+// failed, so they can't fill every batch. Only callable with the service role key.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const batchSize = Number(body.batchSize) || DEFAULT_BATCH_SIZE;
+    const after = typeof body.after === "string" ? body.after : null;
+    const supabase = createServiceClient();
+
+    let query = supabase
+      .from("generations")
+      .select("id, user_id, image_url")
+      .is("storage_path", null)
+      .like("image_url", "data:%")
+      .order("id", { ascending: true })
+      .limit(batchSize);
+    if (after) query = query.gt("id", after);
+
+    const { data: rows, error: selectError } = await query;
+
+    if (selectError) throw selectError;
+
+    let migrated = 0;
+    const failed: string[] = [];
+
+    for (const row of rows ?? []) {
+      try {
+        const stored = await storeGenerationImage(supabase, {
+          userId: row.user_id,
+          generationId: row.id,
+          dataUrl: row.image_url,
+        });
+
+        const { error: updateError } = await supabase
+          .from("generations")
+          .update({ ...stored, image_url: null })
+          .eq("id", row.id);
+
+        if (updateError) throw updateError;
+        migrated++;
+      } catch (error) {
+        console.error("Error backfilling generation", row.id, error);
+        failed.push(row.id);
+      }
+    }
+
+    const { count: remaining, error: countError } = await supabase
+      .from("generations")
+      .select("id", { count: "exact", head: true })
+      .is("storage_path", null)
+      .like("image_url", "data:%");
+
+    if (countError) throw countError;
+
+    return new Response(
+      JSON.stringify({
+        migrated,
+        failed,
+        remaining,
+        // Null once the last batch has been read
+        cursor: rows?.length === batchSize ? rows[rows.length - 1].id : null,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in backfill-generation-images function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,235 @@
+import { assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import { CONTRACT_VERSION } from "../_shared/contract.ts";
+import { ServiceClient } from "../_shared/supabase.ts";
+import { createHandler } from "./handler.ts";
+
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+const OTHER_USER_ID = "22222222-2222-4222-8222-222222222222";
+const GENERATION_ID = "33333333-3333-4333-8333-333333333333";
+const PARENT_ID = "44444444-4444-4444-8444-444444444444";
+
+type Result = { data: unknown; error: unknown };
+
+interface Query {
+  table: string;
+  action: "select" | "update";
+  values?: Record<string, unknown>;
+  filters: Record<string, unknown>;
+}
+
+interface FakeOptions {
+  // The generation row generate-image loads; null when it doesn't exist
+  generation?: { user_id: string; status: string } | null;
+  // The original a derived generation points at
+  parent?: Record<string, unknown> | null;
+  // Balance returned by each debit; null when out of credits
+  balance?: number | null;
+}
+
+// Just enough of the service client for generate-image: answers each query
+// from `options` and records the ones that write
+function createFakeClient({ generation = { user_id: USER_ID, status: "pending" }, parent = null, balance = 9 }: FakeOptions = {}) {
+  const updates: Query[] = [];
+
+  const resolve = (query: Query): Result => {
+    if (query.action === "update") {
+      updates.push(query);
+      return { data: query.values?.status === "queued" ? [{ id: GENERATION_ID }] : null, error: null };
+    }
+    if (query.table === "generations") {
+      return { data: query.filters.id === PARENT_ID ? parent : generation, error: null };
+    }
+    if (query.table === "styles") {
+      return { data: { slug: "none", label: "None", prompt_fragment: "", negative_fragment: null }, error: null };
+    }
+    throw new Error(`Unexpected query on ${query.table}`);
+  };
+
+  const from = (table: string) => {
+    const query: Query = { table, action: "select", filters: {} };
+    const builder = {
+      select: () => builder,
+      update: (values: Record<string, unknown>) => {
+        query.action = "update";
+        query.values = values;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        query.filters[column] = value;
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        query.filters[column] = values;
+        return builder;
+      },
+      order: () => builder,
+      limit: () => builder,
+      maybeSingle: () => Promise.resolve(resolve(query)),
+      then: (onFulfilled: (result: Result) => unknown, onRejected?: (error: unknown) => unknown) =>
+        Promise.resolve().then(() => resolve(query)).then(onFulfilled, onRejected),
+    };
+    return builder;
+  };
+
+  const client = {
+    auth: {
+      getUser: (token: string) =>
+        Promise.resolve(
+          token === "valid-token"
+            ? { data: { user: { id: USER_ID } }, error: null }
+            : { data: { user: null }, error: new Error("Invalid token") }
+        ),
+    },
+    from,
+    rpc: (name: string) => {
+      if (name === "debit_generation_credit") return Promise.resolve({ data: balance, error: null });
+      if (name === "refund_generation_credit") return Promise.resolve({ data: null, error: null });
+      throw new Error(`Unexpected rpc ${name}`);
+    },
+  };
+
+  return { client: client as unknown as ServiceClient, updates };
+}
+
+function setup(options?: FakeOptions) {
+  const fake = createFakeClient(options);
+  let workerStarts = 0;
+  const handler = createHandler({
+    createClient: () => fake.client,
+    startWorker: () => {
+      workerStarts++;
+    },
+  });
+  return { handler, updates: fake.updates, workerStarts: () => workerStarts };
+}
+
+function request(body: unknown, token: string | null = "valid-token") {
+  return new Request("http://localhost/generate-image", {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: JSON.stringify(body),
+  });
+}
+
+const validBody = { version: CONTRACT_VERSION, generationId: GENERATION_ID, prompt: "A lighthouse at dusk", style: "none" };
+
+Deno.test("generate-image queues the caller's pending generation", async () => {
+  const { handler, updates, workerStarts } = setup();
+  const response = await handler(request(validBody));
+
+  assertEquals(response.status, 202);
+  assertEquals(await response.json(), { success: true, status: "queued", credits: 9, queued: 1 });
+  assertEquals(updates.map((update) => update.values?.status), ["queued"]);
+  assertEquals(workerStarts(), 1);
+});
+
+Deno.test("generate-image returns 401 without a bearer token", async () => {
+  const { handler, updates } = setup();
+  const response = await handler(request(validBody, null));
+
+  assertEquals(response.status, 401);
+  assertEquals((await response.json()).code, "UNAUTHENTICATED");
+  assertEquals(updates.length, 0);
+});
+
+Deno.test("generate-image returns 401 for a token that doesn't resolve to a user", async () => {
+  const { handler } = setup();
+  const response = await handler(request(validBody, "expired-token"));
+
+  assertEquals(response.status, 401);
+  assertEquals((await response.json()).code, "UNAUTHENTICATED");
+});
+
+Deno.test("generate-image returns 400 with field errors for an invalid request", async () => {
+  const { handler } = setup();
+  const response = await handler(request({ ...validBody, prompt: "" }));
+  const body = await response.json();
+
+  assertEquals(response.status, 400);
+  assertEquals(body.code, "INVALID_INPUT");
+  assertEquals(Object.keys(body.fieldErrors), ["prompt"]);
+});
+
+Deno.test("generate-image returns 404 for a generation that doesn't exist", async () => {
+  const { handler, updates } = setup({ generation: null });
+  const response = await handler(request(validBody));
+
+  assertEquals(response.status, 404);
+  assertEquals((await response.json()).code, "NOT_FOUND");
+  assertEquals(updates.length, 0);
+});
+
+Deno.test("generate-image returns 403 for another user's generation", async () => {
+  const { handler, updates, workerStarts } = setup({ generation: { user_id: OTHER_USER_ID, status: "pending" } });
+  const response = await handler(request(validBody));
+
+  assertEquals(response.status, 403);
+  assertEquals((await response.json()).code, "FORBIDDEN");
+  assertEquals(updates.length, 0);
+  assertEquals(workerStarts(), 0);
+});
+
+Deno.test("generate-image returns 409 for a generation that was already submitted", async () => {
+  const { handler, updates } = setup({ generation: { user_id: USER_ID, status: "queued" } });
+  const response = await handler(request(validBody));
+
+  assertEquals(response.status, 409);
+  assertEquals((await response.json()).code, "ALREADY_SUBMITTED");
+  assertEquals(updates.length, 0);
+});
+
+Deno.test("generate-image returns 400 and fails the row for an unknown provider", async () => {
+  const { handler, updates } = setup();
+  const response = await handler(request({ ...validBody, provider: "nope" }));
+
+  assertEquals(response.status, 400);
+  assertEquals((await response.json()).fieldErrors?.provider?.length, 1);
+  assertEquals(updates.map((update) => [update.values?.status, update.values?.error_code]), [["failed", "INVALID_INPUT"]]);
+});
+
+Deno.test("generate-image returns 402 and fails the row when out of credits", async () => {
+  const { handler, updates, workerStarts } = setup({ balance: null });
+  const response = await handler(request(validBody));
+
+  assertEquals(response.status, 402);
+  assertEquals((await response.json()).code, "INSUFFICIENT_CREDITS");
+  assertEquals(updates.map((update) => [update.values?.status, update.values?.error_code]), [["failed", "INSUFFICIENT_CREDITS"]]);
+  assertEquals(workerStarts(), 0);
+});
+
+const recordedParent = {
+  id: PARENT_ID,
+  batch_id: null,
+  status: "completed",
+  resolved_request: {
+    provider: "mock",
+    model: "mock/placeholder-svg",
+    enhancedPrompt: "A lighthouse at dusk. Style: none.",
+    negativePrompt: null,
+  },
+};
+
+const reproduction = {
+  ...validBody,
+  provider: "mock",
+  parentId: PARENT_ID,
+  derivationType: "reproduction",
+  replay: { enhancedPrompt: "A lighthouse at dusk. Style: none.", negativePrompt: null, model: "mock/placeholder-svg" },
+};
+
+Deno.test("generate-image queues a replay that matches the original's recorded request", async () => {
+  const { handler, updates } = setup({ parent: recordedParent });
+  const response = await handler(request(reproduction));
+
+  assertEquals(response.status, 202);
+  assertEquals(updates.map((update) => update.values?.replay), [reproduction.replay]);
+});
+
+Deno.test("generate-image returns 400 for a replay that differs from the original", async () => {
+  const { handler, updates } = setup({ parent: recordedParent });
+  const response = await handler(request({ ...reproduction, replay: { ...reproduction.replay, model: "other-model" } }));
+
+  assertEquals(response.status, 400);
+  assertEquals((await response.json()).fieldErrors?.replay?.length, 1);
+  assertEquals(updates.map((update) => [update.values?.status, update.values?.error_code]), [["failed", "INVALID_INPUT"]]);
+});
@@ -0,0 +1,273 @@
+import { checkGenerationAccess, getCaller } from "../_shared/auth.ts";
+import {
+  BATCH_MAX_SIZE,
+  ErrorCode,
+  FieldErrors,
+  generateImageRequestSchema,
+  GenerateImageResponse,
+  ResolvedRequest,
+  toFieldErrors,
+} from "../_shared/contract.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { isProviderId } from "../_shared/providers/index.ts";
+import { storeMaskImage, storeReferenceImage } from "../_shared/storage.ts";
+import { resolveStyle } from "../_shared/styles.ts";
+import { ServiceClient } from "../_shared/supabase.ts";
+
+const respond = (body: GenerateImageResponse, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Fails generations that were rejected before being queued
+const failPending = (supabase: ServiceClient, ids: string[], code: ErrorCode, message: string) =>
+  supabase
+    .from("generations")
+    .update({ status: "failed", error_code: code, error_message: message, finished_at: new Date().toISOString() })
+    .in("id", ids)
+    .eq("status", "pending");
+
+const refundAll = (supabase: ServiceClient, ids: string[]) =>
+  Promise.all(ids.map((id) => supabase.rpc("refund_generation_credit", { _generation_id: id })));
+
+export interface HandlerDeps {
+  createClient: () => ServiceClient;
+  // Starts generation-worker in the background
+  startWorker: () => void;
+}
+
+// Accepts a pending generation, stores its inputs and queues it for
+// generation-worker. With a batchId, every pending generation of the batch is
+// charged and queued together. Returns as soon as the jobs are queued.
+export function createHandler({ createClient, startWorker }: HandlerDeps) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const supabase = createClient();
+
+      const caller = await getCaller(supabase, req);
+      if (!caller) {
+        return respond({ error: "Please sign in to generate images", code: "UNAUTHENTICATED" }, 401);
+      }
+
+      const body = await req.json().catch(() => null);
+      const parsed = generateImageRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return respond({ error: "Invalid request", code: "INVALID_INPUT", fieldErrors: toFieldErrors(parsed.error) }, 400);
+      }
+
+      const { version: _version, generationId, batchId, prompt, negativePrompt, style, referenceImages = [], mask, parentId, derivationType, replay, ...parameters } = parsed.data;
+      const providerId = parameters.provider;
+
+      // The service client bypasses RLS, so ownership is checked explicitly
+      const { data: generation, error: fetchError } = await supabase
+        .from("generations")
+        .select("user_id, status")
+        .eq("id", generationId)
+        .maybeSingle();
+
+      if (fetchError) {
+        console.error("Error loading generation:", fetchError);
+        throw fetchError;
+      }
+
+      const access = checkGenerationAccess(generation, caller.id);
+      if (!generation || access === "not_found") {
+        return respond({ error: "Generation not found", code: "NOT_FOUND" }, 404);
+      }
+      if (access === "forbidden") {
+        return respond({ error: "Generation belongs to another user", code: "FORBIDDEN" }, 403);
+      }
+      if (access === "conflict") {
+        return respond({
+          error: `Generation has already been submitted (status: ${generation.status})`,
+          code: "ALREADY_SUBMITTED",
+        }, 409);
+      }
+
+      let generationIds = [generationId];
+      if (batchId) {
+        const { data: members, error: membersError } = await supabase
+          .from("generations")
+          .select("id")
+          .eq("batch_id", batchId)
+          .eq("user_id", caller.id)
+          .eq("status", "pending")
+          .order("created_at", { ascending: true })
+          .limit(BATCH_MAX_SIZE);
+
+        if (membersError) {
+          console.error("Error loading batch:", membersError);
+          throw membersError;
+        }
+
+        const memberIds = (members ?? []).map((member) => member.id);
+        if (!memberIds.includes(generationId)) {
+          await failPending(supabase, generationIds, "INVALID_INPUT", "Generation is not part of this batch");
+          return respond({
+            error: "Invalid request",
+            code: "INVALID_INPUT",
+            fieldErrors: { batchId: ["Generation is not part of this batch"] },
+          }, 400);
+        }
+        generationIds = memberIds;
+      }
+
+      // Fails the pending rows too, so they don't show as in progress until the
+      // reaper gets to them
+      const reject = async (field: keyof FieldErrors, message: string) => {
+        await failPending(supabase, generationIds, "INVALID_INPUT", message);
+        return respond({ error: "Invalid request", code: "INVALID_INPUT", fieldErrors: { [field]: [message] } }, 400);
+      };
+
+      if (providerId && !isProviderId(providerId)) {
+        return reject("provider", `Unknown image provider: ${providerId}`);
+      }
+
+      if (parentId) {
+        if (generationIds.includes(parentId)) {
+          return reject("parentId", "A generation can't be derived from itself or its own batch");
+        }
+
+        const { data: parent, error: parentError } = await supabase
+          .from("generations")
+          .select("id, batch_id, status, resolved_request")
+          .eq("id", parentId)
+          .eq("user_id", caller.id)
+          .maybeSingle();
+
+        if (parentError) {
+          console.error("Error loading parent generation:", parentError);
+          throw parentError;
+        }
+        if (!parent) {
+          return reject("parentId", "Original generation not found");
+        }
+        if (batchId && parent.batch_id === batchId) {
+          return reject("parentId", "A generation can't be derived from itself or its own batch");
+        }
+        // Only finished images are derived from, which also rules out cycles:
+        // a parent can't be a row that is still pending
+        if (parent.status !== "completed") {
+          return reject("parentId", "Original generation hasn't finished");
+        }
+        // A replay skips the style and provider defaults, so it may only carry
+        // what the original actually ran with
+        if (replay) {
+          const recorded = parent.resolved_request as ResolvedRequest | null;
+          if (
+            !recorded ||
+            recorded.provider !== providerId ||
+            recorded.model !== replay.model ||
+            recorded.enhancedPrompt !== replay.enhancedPrompt ||
+            (recorded.negativePrompt ?? null) !== replay.negativePrompt
+          ) {
+            return reject("replay", "Doesn't match the original generation's recorded request");
+          }
+        }
+      }
+
+      const stylePreset = await resolveStyle(supabase, style, caller.id);
+      if (!stylePreset) {
+        return reject("style", `Unknown style: ${style}`);
+      }
+
+      // One credit per image; images past the balance fail without being queued
+      const charged: string[] = [];
+      let balance: number | null = null;
+      for (const id of generationIds) {
+        const { data, error: debitError } = await supabase.rpc("debit_generation_credit", { _generation_id: id });
+
+        if (debitError) {
+          console.error("Error debiting credits:", debitError);
+          await refundAll(supabase, charged);
+          throw debitError;
+        }
+        if (data === null) break;
+
+        charged.push(id);
+        balance = data;
+      }
+
+      const unpaid = generationIds.filter((id) => !charged.includes(id));
+      if (unpaid.length > 0) {
+        await failPending(supabase, unpaid, "INSUFFICIENT_CREDITS", "Insufficient credits");
+      }
+
+      // balance is set with the first charge
+      if (charged.length === 0 || balance === null) {
+        return respond({ error: "Insufficient credits. Please add more credits to continue.", code: "INSUFFICIENT_CREDITS" }, 402);
+      }
+
+      let queuedCount = 0;
+      try {
+        // Batch members share one copy of the reference images
+        const references = await Promise.all(
+          referenceImages.map(async ({ image, role }, index) => {
+            const stored = await storeReferenceImage(supabase, {
+              userId: caller.id,
+              sourceId: batchId ?? generationId,
+              index,
+              dataUrl: image,
+            });
+            return { path: stored.storage_path, role };
+          })
+        );
+        const storedMask = mask
+          ? await storeMaskImage(supabase, { userId: caller.id, sourceId: batchId ?? generationId, dataUrl: mask })
+          : null;
+
+        const { data: queued, error: queueError } = await supabase
+          .from("generations")
+          .update({
+            prompt,
+            negative_prompt: negativePrompt || null,
+            style,
+            // Only explicitly requested values; unset keys fall back to style defaults
+            parameters,
+            reference_images: references,
+            mask_path: storedMask?.storage_path ?? null,
+            parent_id: parentId ?? null,
+            derivation_type: derivationType ?? null,
+            replay: replay ?? null,
+            status: "queued",
+            queued_at: new Date().toISOString(),
+          })
+          .in("id", charged)
+          .eq("status", "pending")
+          .select("id");
+
+        if (queueError) {
+          console.error("Error queueing generation:", queueError);
+          throw queueError;
+        }
+
+        // Lost a race with a concurrent submit or cancel of the same rows. The
+        // debit is once per generation, so the winner's charge stands (or was
+        // already refunded by cancel_generation).
+        if (!queued?.length) {
+          return respond({ error: "Generation has already been submitted", code: "ALREADY_SUBMITTED" }, 409);
+        }
+        queuedCount = queued.length;
+      } catch (error) {
+        await failPending(supabase, charged, "INTERNAL_ERROR", "Generation could not be queued");
+        await refundAll(supabase, charged);
+        throw error;
+      }
+
+      console.log("Generations queued:", batchId ?? generationId, queuedCount);
+
+      // Kick the worker now rather than waiting for the next cron tick
+      startWorker();
+
+      return respond({ success: true, status: "queued", credits: balance, queued: queuedCount }, 202);
+    } catch (error) {
+      console.error("Error in generate-image function:", error);
+      return respond({ error: error instanceof Error ? error.message : "Unknown error", code: "INTERNAL_ERROR" }, 500);
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { GenerationJob, runGeneration } from "../_shared/generation.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+const DEFAULT_CONCURRENCY = 4;
+// Images of one batch running at once, so big batches share the workers
+const DEFAULT_BATCH_CONCURRENCY = 2;
+// Stop claiming new work after this long so in-flight jobs finish inside the
+// edge function's wall-clock limit
+const TIME_BUDGET_MS = 50_000;
+
+// Drains the generation queue. Invoked by generate-image after enqueueing and
+// by pg_cron every minute; only callable with the service role key.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const concurrency = Number(Deno.env.get("GENERATION_WORKER_CONCURRENCY")) || DEFAULT_CONCURRENCY;
+    const batchConcurrency = Number(Deno.env.get("GENERATION_BATCH_CONCURRENCY")) || DEFAULT_BATCH_CONCURRENCY;
+    const startedAt = Date.now();
+    let processed = 0;
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: jobs, error: claimError } = await supabase.rpc("claim_generation_jobs", {
+        _max_running: concurrency,
+        _max_per_batch: batchConcurrency,
+      });
+
+      if (claimError) throw claimError;
+      if (!jobs?.length) break;
+
+      await Promise.all((jobs as GenerationJob[]).map((job) => runGeneration(supabase, job)));
+      processed += jobs.length;
+    }
+
+    return new Response(
+      JSON.stringify({ processed }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in generation-worker function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
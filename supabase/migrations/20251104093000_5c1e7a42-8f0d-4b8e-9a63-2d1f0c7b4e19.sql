@@ -0,0 +1,32 @@
+-- Move generated images out of generations.image_url and into Storage
+
+-- Object metadata for images stored in the generations bucket
+ALTER TABLE public.generations
+  ADD COLUMN storage_path TEXT,
+  ADD COLUMN mime_type TEXT,
+  ADD COLUMN width INTEGER,
+  ADD COLUMN height INTEGER,
+  ADD COLUMN bytes INTEGER;
+
+-- Private bucket; objects are keyed as <user_id>/<generation_id>.<ext>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('generations', 'generations', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own generation images"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'generations' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own generation images"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'generations' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Rows still holding an inline data URL, drained by the backfill-generation-images
+-- function. Invoke it with the service role key, passing the cursor it returns
+-- as "after", until the cursor comes back null. Rows that fail to convert stay
+-- inline, so remaining may never reach 0:
+--   curl -X POST "$SUPABASE_URL/functions/v1/backfill-generation-images" \
+--     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+--     -d '{"after": "<cursor>"}'
+CREATE INDEX idx_generations_pending_backfill ON public.generations(id)
+  WHERE storage_path IS NULL AND image_url LIKE 'data:%';
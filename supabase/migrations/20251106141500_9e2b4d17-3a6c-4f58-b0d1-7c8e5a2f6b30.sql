@@ -0,0 +1,34 @@
+-- Style presets shared by the generation form and the generate-image function
+CREATE TABLE public.styles (
+  slug TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  emoji TEXT,
+  prompt_fragment TEXT NOT NULL,
+  negative_fragment TEXT,
+  preview_image_url TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS on styles
+ALTER TABLE public.styles ENABLE ROW LEVEL SECURITY;
+
+-- Presets are managed from the dashboard; clients may only read enabled ones
+CREATE POLICY "Anyone can view enabled styles"
+  ON public.styles FOR SELECT
+  USING (enabled);
+
+CREATE INDEX idx_styles_sort_order ON public.styles(sort_order);
+
+-- Seed with the presets previously hard-coded in the form and edge function
+INSERT INTO public.styles (slug, label, emoji, prompt_fragment, sort_order) VALUES
+  ('cinematic', 'Cinematic', '🎬', 'cinematic lighting, dramatic composition, film grain, professional cinematography', 10),
+  ('anime', 'Anime', '🎌', 'anime art style, vibrant colors, detailed illustration, manga inspired', 20),
+  ('realistic', 'Realistic', '📸', 'photorealistic, high detail, professional photography, natural lighting', 30),
+  ('fantasy', 'Fantasy', '🧙‍♂️', 'fantasy art, magical atmosphere, epic composition, vibrant colors', 40),
+  ('cyberpunk', 'Cyberpunk', '🤖', 'cyberpunk style, neon lights, futuristic cityscape, high tech aesthetic', 50),
+  ('watercolor', 'Watercolor', '🎨', 'watercolor painting, soft colors, artistic brushstrokes, flowing', 60),
+  ('oil-painting', 'Oil Painting', '🖼️', 'oil painting style, rich textures, classical art, detailed brushwork', 70),
+  ('3d-render', '3D Render', '💎', '3D rendered, volumetric lighting, high quality render, photorealistic materials', 80);
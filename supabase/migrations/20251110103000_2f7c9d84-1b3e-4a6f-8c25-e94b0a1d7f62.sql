@@ -0,0 +1,94 @@
+-- Workspaces group users who share custom styles
+CREATE TABLE public.workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+-- Membership check usable from RLS policies without recursing into them
+CREATE OR REPLACE FUNCTION public.is_workspace_member(_workspace_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = _workspace_id AND user_id = _user_id
+  );
+$$;
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces"
+  ON public.workspaces FOR SELECT
+  USING (public.is_workspace_member(id, auth.uid()));
+
+CREATE POLICY "Members can view workspace membership"
+  ON public.workspace_members FOR SELECT
+  USING (public.is_workspace_member(workspace_id, auth.uid()));
+
+-- User-defined style recipes
+CREATE TABLE public.custom_styles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  emoji TEXT,
+  prompt_fragment TEXT NOT NULL,
+  negative_fragment TEXT,
+  reference_image_path TEXT,
+  default_parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'workspace', 'public')),
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (visibility <> 'workspace' OR workspace_id IS NOT NULL)
+);
+
+ALTER TABLE public.custom_styles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view accessible custom styles"
+  ON public.custom_styles FOR SELECT
+  USING (
+    auth.uid() = owner_id
+    OR visibility = 'public'
+    OR (visibility = 'workspace' AND public.is_workspace_member(workspace_id, auth.uid()))
+  );
+
+CREATE POLICY "Users can create their own custom styles"
+  ON public.custom_styles FOR INSERT
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND (workspace_id IS NULL OR public.is_workspace_member(workspace_id, auth.uid()))
+  );
+
+CREATE POLICY "Users can update their own custom styles"
+  ON public.custom_styles FOR UPDATE
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can delete their own custom styles"
+  ON public.custom_styles FOR DELETE
+  USING (auth.uid() = owner_id);
+
+CREATE INDEX idx_custom_styles_owner_id ON public.custom_styles(owner_id);
+CREATE INDEX idx_custom_styles_workspace_id ON public.custom_styles(workspace_id);
+
+-- Style reference images are uploaded by the client to <user_id>/styles/
+CREATE POLICY "Users can upload their own style references"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'generations'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+    AND (storage.foldername(name))[2] = 'styles'
+  );
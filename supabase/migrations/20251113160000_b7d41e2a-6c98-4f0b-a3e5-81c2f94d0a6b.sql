@@ -0,0 +1,123 @@
+-- Asynchronous generation queue
+--
+-- Lifecycle: pending (row created by the client) -> queued (accepted by
+-- generate-image) -> running (claimed by generation-worker) -> completed |
+-- failed | cancelled
+
+ALTER TABLE public.generations
+  ADD COLUMN parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN source_image_path TEXT,
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 3,
+  ADD COLUMN error_message TEXT,
+  ADD COLUMN queued_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN finished_at TIMESTAMP WITH TIME ZONE;
+
+-- Rows left pending by the old synchronous flow never completed
+UPDATE public.generations
+SET status = 'failed', error_message = 'Generation was interrupted', finished_at = NOW()
+WHERE status = 'pending' OR status IS NULL;
+
+ALTER TABLE public.generations
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT generations_status_check
+    CHECK (status IN ('pending', 'queued', 'running', 'completed', 'failed', 'cancelled'));
+
+CREATE INDEX idx_generations_queue ON public.generations(queued_at)
+  WHERE status = 'queued';
+CREATE INDEX idx_generations_running ON public.generations(started_at)
+  WHERE status = 'running';
+
+-- Claims up to the free concurrency slots for a worker. Also reaps stale jobs:
+-- running jobs whose worker died are requeued (or failed once out of
+-- attempts) and rows never submitted by the client are failed.
+CREATE OR REPLACE FUNCTION public.claim_generation_jobs(
+  _max_running INTEGER,
+  _stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.generations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available INTEGER;
+BEGIN
+  -- Serialise claimers so the concurrency count below stays accurate
+  PERFORM pg_advisory_xact_lock(hashtext('claim_generation_jobs'));
+
+  UPDATE public.generations
+  SET
+    status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+    error_message = CASE WHEN attempts < max_attempts THEN error_message ELSE 'Generation timed out' END,
+    queued_at = CASE WHEN attempts < max_attempts THEN NOW() ELSE queued_at END,
+    finished_at = CASE WHEN attempts < max_attempts THEN NULL ELSE NOW() END
+  WHERE status = 'running' AND started_at < NOW() - _stale_after;
+
+  UPDATE public.generations
+  SET status = 'failed', error_message = 'Generation was never submitted', finished_at = NOW()
+  WHERE status = 'pending' AND created_at < NOW() - _stale_after;
+
+  SELECT _max_running - COUNT(*) INTO _available
+  FROM public.generations
+  WHERE status = 'running';
+
+  IF _available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.generations g
+  SET status = 'running', attempts = g.attempts + 1, started_at = NOW(), finished_at = NULL
+  WHERE g.id IN (
+    SELECT id FROM public.generations
+    WHERE status = 'queued'
+    ORDER BY queued_at
+    LIMIT _available
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING g.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_generation_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Lets users stop their own unfinished jobs; workers check the status before
+-- saving results
+CREATE OR REPLACE FUNCTION public.cancel_generation(_generation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH cancelled AS (
+    UPDATE public.generations
+    SET status = 'cancelled', finished_at = NOW()
+    WHERE id = _generation_id
+      AND user_id = auth.uid()
+      AND status IN ('pending', 'queued', 'running')
+    RETURNING 1
+  )
+  SELECT EXISTS (SELECT 1 FROM cancelled);
+$$;
+
+-- Drain the queue every minute as a fallback to the kick from generate-image.
+-- Requires `project_url` and `service_role_key` secrets in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'drain-generation-queue',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/generation-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,6 @@
+-- Stream generation changes to the gallery over Supabase Realtime
+
+-- Full row images so UPDATE and DELETE events carry user_id for filtering
+ALTER TABLE public.generations REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generations;
@@ -0,0 +1,221 @@
+-- Server-side credit accounting for generations
+
+UPDATE public.profiles SET generation_credits = 10 WHERE generation_credits IS NULL;
+ALTER TABLE public.profiles
+  ALTER COLUMN generation_credits SET NOT NULL,
+  ADD CONSTRAINT profiles_generation_credits_check CHECK (generation_credits >= 0);
+
+-- Balances are only changed through the functions below; users keep the
+-- ability to edit their own name and avatar
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (email, full_name, avatar_url, updated_at) ON public.profiles TO authenticated;
+
+-- Every credit movement, positive or negative
+CREATE TABLE public.credit_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  delta INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('opening_balance', 'signup_grant', 'generation', 'generation_refund', 'adjustment')),
+  generation_id UUID REFERENCES public.generations(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit ledger"
+  ON public.credit_ledger FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_credit_ledger_user_id ON public.credit_ledger(user_id, created_at DESC);
+CREATE INDEX idx_credit_ledger_generation_id ON public.credit_ledger(generation_id);
+
+-- Start the ledger from current balances
+INSERT INTO public.credit_ledger (user_id, delta, balance_after, reason)
+SELECT id, generation_credits, generation_credits, 'opening_balance'
+FROM public.profiles;
+
+-- Record the signup grant alongside the new profile
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER 
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _credits INTEGER;
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name')
+  RETURNING generation_credits INTO _credits;
+
+  INSERT INTO public.credit_ledger (user_id, delta, balance_after, reason)
+  VALUES (NEW.id, _credits, _credits, 'signup_grant');
+  RETURN NEW;
+END;
+$$;
+
+-- Charges the generation's owner once per generation. Returns the new balance,
+-- or NULL when the balance is insufficient.
+CREATE OR REPLACE FUNCTION public.debit_generation_credit(_generation_id UUID, _amount INTEGER DEFAULT 1)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _balance INTEGER;
+BEGIN
+  -- Lock the generation so debit and refund for it never interleave
+  SELECT user_id INTO _user_id FROM public.generations WHERE id = _generation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Generation % not found', _generation_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.credit_ledger
+    WHERE generation_id = _generation_id AND reason = 'generation'
+  ) THEN
+    SELECT generation_credits INTO _balance FROM public.profiles WHERE id = _user_id;
+    RETURN _balance;
+  END IF;
+
+  UPDATE public.profiles
+  SET generation_credits = generation_credits - _amount, updated_at = NOW()
+  WHERE id = _user_id AND generation_credits >= _amount
+  RETURNING generation_credits INTO _balance;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.credit_ledger (user_id, delta, balance_after, reason, generation_id)
+  VALUES (_user_id, -_amount, _balance, 'generation', _generation_id);
+
+  RETURN _balance;
+END;
+$$;
+
+-- Returns whatever is still charged for a generation. Safe to call more than
+-- once and for generations that were never charged.
+CREATE OR REPLACE FUNCTION public.refund_generation_credit(_generation_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _outstanding INTEGER;
+  _balance INTEGER;
+BEGIN
+  SELECT user_id INTO _user_id FROM public.generations WHERE id = _generation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT -COALESCE(SUM(delta), 0) INTO _outstanding
+  FROM public.credit_ledger
+  WHERE generation_id = _generation_id AND reason IN ('generation', 'generation_refund');
+
+  IF _outstanding <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.profiles
+  SET generation_credits = generation_credits + _outstanding, updated_at = NOW()
+  WHERE id = _user_id
+  RETURNING generation_credits INTO _balance;
+
+  INSERT INTO public.credit_ledger (user_id, delta, balance_after, reason, generation_id)
+  VALUES (_user_id, _outstanding, _balance, 'generation_refund', _generation_id);
+
+  RETURN _balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.debit_generation_credit(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_generation_credit(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Refund jobs the reaper gives up on
+CREATE OR REPLACE FUNCTION public.claim_generation_jobs(
+  _max_running INTEGER,
+  _stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.generations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available INTEGER;
+  _timed_out UUID;
+BEGIN
+  -- Serialise claimers so the concurrency count below stays accurate
+  PERFORM pg_advisory_xact_lock(hashtext('claim_generation_jobs'));
+
+  UPDATE public.generations
+  SET status = 'queued', queued_at = NOW()
+  WHERE status = 'running' AND started_at < NOW() - _stale_after AND attempts < max_attempts;
+
+  FOR _timed_out IN
+    UPDATE public.generations
+    SET status = 'failed', error_message = 'Generation timed out', finished_at = NOW()
+    WHERE status = 'running' AND started_at < NOW() - _stale_after
+    RETURNING id
+  LOOP
+    PERFORM public.refund_generation_credit(_timed_out);
+  END LOOP;
+
+  UPDATE public.generations
+  SET status = 'failed', error_message = 'Generation was never submitted', finished_at = NOW()
+  WHERE status = 'pending' AND created_at < NOW() - _stale_after;
+
+  SELECT _max_running - COUNT(*) INTO _available
+  FROM public.generations
+  WHERE status = 'running';
+
+  IF _available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.generations g
+  SET status = 'running', attempts = g.attempts + 1, started_at = NOW(), finished_at = NULL
+  WHERE g.id IN (
+    SELECT id FROM public.generations
+    WHERE status = 'queued'
+    ORDER BY queued_at
+    LIMIT _available
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING g.*;
+END;
+$$;
+
+-- Cancelled jobs are refunded
+CREATE OR REPLACE FUNCTION public.cancel_generation(_generation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.generations
+  SET status = 'cancelled', finished_at = NOW()
+  WHERE id = _generation_id
+    AND user_id = auth.uid()
+    AND status IN ('pending', 'queued', 'running');
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM public.refund_generation_credit(_generation_id);
+  RETURN true;
+END;
+$$;
+
+-- Let the header balance update live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.profiles;
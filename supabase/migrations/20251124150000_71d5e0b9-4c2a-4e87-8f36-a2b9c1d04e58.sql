@@ -0,0 +1,72 @@
+-- Typed failure reasons on generations (see ERROR_CODES in _shared/contract.ts)
+
+ALTER TABLE public.generations ADD COLUMN error_code TEXT;
+
+-- Best-effort classification of failures recorded before codes existed
+UPDATE public.generations
+SET error_code = CASE
+  WHEN error_message = 'Insufficient credits' THEN 'INSUFFICIENT_CREDITS'
+  WHEN error_message LIKE 'Unknown style:%' THEN 'INVALID_INPUT'
+  WHEN error_message LIKE 'Rate limit exceeded%' THEN 'RATE_LIMITED'
+  WHEN error_message LIKE 'AI credits depleted%' THEN 'PROVIDER_QUOTA_EXCEEDED'
+  WHEN error_message = 'No image generated' THEN 'NO_IMAGE_RETURNED'
+  WHEN error_message = 'Generation timed out' THEN 'GENERATION_TIMEOUT'
+  WHEN error_message = 'Generation was never submitted' THEN 'NOT_SUBMITTED'
+  ELSE 'INTERNAL_ERROR'
+END
+WHERE status = 'failed';
+
+CREATE OR REPLACE FUNCTION public.claim_generation_jobs(
+  _max_running INTEGER,
+  _stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.generations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available INTEGER;
+  _timed_out UUID;
+BEGIN
+  -- Serialise claimers so the concurrency count below stays accurate
+  PERFORM pg_advisory_xact_lock(hashtext('claim_generation_jobs'));
+
+  UPDATE public.generations
+  SET status = 'queued', queued_at = NOW()
+  WHERE status = 'running' AND started_at < NOW() - _stale_after AND attempts < max_attempts;
+
+  FOR _timed_out IN
+    UPDATE public.generations
+    SET status = 'failed', error_code = 'GENERATION_TIMEOUT', error_message = 'Generation timed out', finished_at = NOW()
+    WHERE status = 'running' AND started_at < NOW() - _stale_after
+    RETURNING id
+  LOOP
+    PERFORM public.refund_generation_credit(_timed_out);
+  END LOOP;
+
+  UPDATE public.generations
+  SET status = 'failed', error_code = 'NOT_SUBMITTED', error_message = 'Generation was never submitted', finished_at = NOW()
+  WHERE status = 'pending' AND created_at < NOW() - _stale_after;
+
+  SELECT _max_running - COUNT(*) INTO _available
+  FROM public.generations
+  WHERE status = 'running';
+
+  IF _available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.generations g
+  SET status = 'running', attempts = g.attempts + 1, started_at = NOW(), finished_at = NULL
+  WHERE g.id IN (
+    SELECT id FROM public.generations
+    WHERE status = 'queued'
+    ORDER BY queued_at
+    LIMIT _available
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING g.*;
+END;
+$$;
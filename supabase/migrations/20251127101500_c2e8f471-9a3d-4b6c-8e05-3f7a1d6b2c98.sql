@@ -0,0 +1,91 @@
+-- Retry with backoff: per-attempt history and delayed requeueing
+
+ALTER TABLE public.generations ADD COLUMN next_attempt_at TIMESTAMP WITH TIME ZONE;
+
+-- One row per provider call made by generation-worker
+CREATE TABLE public.generation_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  generation_id UUID NOT NULL REFERENCES public.generations(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL,
+  provider TEXT,
+  model TEXT,
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  error_code TEXT,
+  error_message TEXT,
+  retry_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_ms INTEGER NOT NULL
+);
+
+ALTER TABLE public.generation_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view attempts for their own generations"
+  ON public.generation_attempts FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.generations
+    WHERE generations.id = generation_attempts.generation_id
+      AND generations.user_id = auth.uid()
+  ));
+
+CREATE INDEX idx_generation_attempts_generation_id ON public.generation_attempts(generation_id, attempt);
+
+-- Only claim jobs whose backoff has elapsed
+DROP INDEX public.idx_generations_queue;
+CREATE INDEX idx_generations_queue ON public.generations(queued_at, next_attempt_at)
+  WHERE status = 'queued';
+
+CREATE OR REPLACE FUNCTION public.claim_generation_jobs(
+  _max_running INTEGER,
+  _stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.generations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available INTEGER;
+  _timed_out UUID;
+BEGIN
+  -- Serialise claimers so the concurrency count below stays accurate
+  PERFORM pg_advisory_xact_lock(hashtext('claim_generation_jobs'));
+
+  UPDATE public.generations
+  SET status = 'queued', queued_at = NOW(), next_attempt_at = NULL
+  WHERE status = 'running' AND started_at < NOW() - _stale_after AND attempts < max_attempts;
+
+  FOR _timed_out IN
+    UPDATE public.generations
+    SET status = 'failed', error_code = 'GENERATION_TIMEOUT', error_message = 'Generation timed out', finished_at = NOW()
+    WHERE status = 'running' AND started_at < NOW() - _stale_after
+    RETURNING id
+  LOOP
+    PERFORM public.refund_generation_credit(_timed_out);
+  END LOOP;
+
+  UPDATE public.generations
+  SET status = 'failed', error_code = 'NOT_SUBMITTED', error_message = 'Generation was never submitted', finished_at = NOW()
+  WHERE status = 'pending' AND created_at < NOW() - _stale_after;
+
+  SELECT _max_running - COUNT(*) INTO _available
+  FROM public.generations
+  WHERE status = 'running';
+
+  IF _available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.generations g
+  SET status = 'running', attempts = g.attempts + 1, started_at = NOW(), finished_at = NULL, next_attempt_at = NULL
+  WHERE g.id IN (
+    SELECT id FROM public.generations
+    WHERE status = 'queued' AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+    ORDER BY queued_at
+    LIMIT _available
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING g.*;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- What the user asked the model to avoid, kept separate from the prompt so
+-- providers with a native negative prompt can receive it as such
+ALTER TABLE public.generations ADD COLUMN negative_prompt TEXT;
+
+-- Default things to avoid for each built-in preset; merged with the user's
+-- negative prompt at generation time
+UPDATE public.styles SET negative_fragment = CASE slug
+  WHEN 'cinematic' THEN 'flat lighting, amateur snapshot, overexposed, washed out colors'
+  WHEN 'anime' THEN 'photorealistic, 3d render, deformed anatomy, extra limbs, western cartoon'
+  WHEN 'realistic' THEN 'cartoon, illustration, painting, plastic skin, oversaturated, distorted hands'
+  WHEN 'fantasy' THEN 'modern objects, dull colors, mundane setting, low detail'
+  WHEN 'cyberpunk' THEN 'daylight, pastoral scenery, muted colors, medieval elements'
+  WHEN 'watercolor' THEN 'hard edges, digital artifacts, photorealistic, heavy outlines'
+  WHEN 'oil-painting' THEN 'photograph, digital art, flat shading, smooth airbrushed texture'
+  WHEN '3d-render' THEN 'hand-drawn, sketch, low poly, noisy render, flat shading'
+  ELSE negative_fragment
+END;
@@ -0,0 +1,108 @@
+-- Batches: several candidate images from one request. Each image is its own
+-- generations row, charged and queued like a single generation.
+CREATE TABLE public.generation_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  prompt TEXT NOT NULL,
+  style TEXT NOT NULL,
+  size INTEGER NOT NULL CHECK (size BETWEEN 1 AND 8),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.generation_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own batches"
+  ON public.generation_batches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own batches"
+  ON public.generation_batches FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own batches"
+  ON public.generation_batches FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_generation_batches_user_id ON public.generation_batches(user_id, created_at DESC);
+
+ALTER TABLE public.generations
+  ADD COLUMN batch_id UUID REFERENCES public.generation_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_generations_batch_id ON public.generations(batch_id) WHERE batch_id IS NOT NULL;
+
+-- Same as before, plus a cap on how many images of one batch run at once so
+-- a large batch can't take every worker slot
+DROP FUNCTION public.claim_generation_jobs(INTEGER, INTERVAL);
+
+CREATE OR REPLACE FUNCTION public.claim_generation_jobs(
+  _max_running INTEGER,
+  _max_per_batch INTEGER DEFAULT 2,
+  _stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.generations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available INTEGER;
+  _timed_out UUID;
+BEGIN
+  -- Serialise claimers so the concurrency counts below stay accurate
+  PERFORM pg_advisory_xact_lock(hashtext('claim_generation_jobs'));
+
+  UPDATE public.generations
+  SET status = 'queued', queued_at = NOW(), next_attempt_at = NULL
+  WHERE status = 'running' AND started_at < NOW() - _stale_after AND attempts < max_attempts;
+
+  FOR _timed_out IN
+    UPDATE public.generations
+    SET status = 'failed', error_code = 'GENERATION_TIMEOUT', error_message = 'Generation timed out', finished_at = NOW()
+    WHERE status = 'running' AND started_at < NOW() - _stale_after
+    RETURNING id
+  LOOP
+    PERFORM public.refund_generation_credit(_timed_out);
+  END LOOP;
+
+  UPDATE public.generations
+  SET status = 'failed', error_code = 'NOT_SUBMITTED', error_message = 'Generation was never submitted', finished_at = NOW()
+  WHERE status = 'pending' AND created_at < NOW() - _stale_after;
+
+  SELECT _max_running - COUNT(*) INTO _available
+  FROM public.generations
+  WHERE status = 'running';
+
+  IF _available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.generations g
+  SET status = 'running', attempts = g.attempts + 1, started_at = NOW(), finished_at = NULL, next_attempt_at = NULL
+  WHERE g.id IN (
+    SELECT id FROM public.generations
+    WHERE id IN (
+      -- Ready jobs, skipping batch members beyond the batch's free slots
+      SELECT ready.id
+      FROM (
+        SELECT q.id, q.batch_id, ROW_NUMBER() OVER (PARTITION BY q.batch_id ORDER BY q.queued_at) AS position
+        FROM public.generations q
+        WHERE q.status = 'queued' AND (q.next_attempt_at IS NULL OR q.next_attempt_at <= NOW())
+      ) ready
+      LEFT JOIN (
+        SELECT batch_id, COUNT(*) AS running
+        FROM public.generations
+        WHERE status = 'running' AND batch_id IS NOT NULL
+        GROUP BY batch_id
+      ) busy ON busy.batch_id = ready.batch_id
+      WHERE ready.batch_id IS NULL OR ready.position + COALESCE(busy.running, 0) <= _max_per_batch
+    )
+    ORDER BY queued_at
+    LIMIT _available
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING g.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_generation_jobs(INTEGER, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
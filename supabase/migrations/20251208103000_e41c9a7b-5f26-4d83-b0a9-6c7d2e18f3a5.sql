@@ -0,0 +1,4 @@
+-- Exactly what produced each image: enhanced prompt, provider and model,
+-- seed, resolved parameters, input image hashes and runner version. Written
+-- by generation-worker; the shape is ResolvedRequest in _shared/contract.ts.
+ALTER TABLE public.generations ADD COLUMN resolved_request JSONB;
@@ -0,0 +1,10 @@
+-- Several reference images per generation, each with a role, in priority
+-- order: [{ "path": "<user>/sources/...", "role": "subject" | "style" | "composition" }].
+-- Replaces source_image_path, which held a single photo.
+ALTER TABLE public.generations ADD COLUMN reference_images JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE public.generations
+SET reference_images = jsonb_build_array(jsonb_build_object('path', source_image_path, 'role', 'subject'))
+WHERE source_image_path IS NOT NULL;
+
+ALTER TABLE public.generations DROP COLUMN source_image_path;
@@ -0,0 +1,7 @@
+-- Inpainting: a mask per generation, and a link from an edit to the
+-- generation it was made from
+ALTER TABLE public.generations
+  ADD COLUMN mask_path TEXT,
+  ADD COLUMN parent_id UUID REFERENCES public.generations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_generations_parent_id ON public.generations(parent_id) WHERE parent_id IS NOT NULL;
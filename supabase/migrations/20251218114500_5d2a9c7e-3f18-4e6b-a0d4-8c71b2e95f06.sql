@@ -0,0 +1,38 @@
+-- Lineage: how a generation was derived from its parent, and the ancestors
+-- and descendants of a generation in one call. derivation_type outlives the
+-- parent, so a child still says how it was made after the original is deleted.
+ALTER TABLE public.generations
+  ADD COLUMN derivation_type TEXT
+    CHECK (derivation_type IN ('edit', 'variation', 'inpaint', 'outpaint', 'remix', 'reproduction'));
+
+-- Children so far all came from the gallery's mask editors
+UPDATE public.generations
+SET derivation_type = CASE
+  WHEN parameters->>'editMode' IN ('inpaint', 'outpaint') THEN parameters->>'editMode'
+  ELSE 'edit'
+END
+WHERE parent_id IS NOT NULL;
+
+-- The generation itself, every ancestor up to the root and every descendant.
+-- Runs as the caller, so row level security limits it to their own rows.
+CREATE OR REPLACE FUNCTION public.get_generation_lineage(_generation_id UUID)
+RETURNS SETOF public.generations
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT g.* FROM generations g WHERE g.id = _generation_id
+    UNION ALL
+    SELECT p.* FROM generations p JOIN ancestors a ON p.id = a.parent_id
+  ),
+  descendants AS (
+    SELECT c.* FROM generations c WHERE c.parent_id = _generation_id
+    UNION ALL
+    SELECT c.* FROM generations c JOIN descendants d ON c.parent_id = d.id
+  )
+  SELECT * FROM ancestors
+  UNION ALL
+  SELECT * FROM descendants;
+$$;
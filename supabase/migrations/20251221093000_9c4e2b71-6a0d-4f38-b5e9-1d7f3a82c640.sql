@@ -0,0 +1,14 @@
+-- Gallery search and filtering: full-text search over prompts, and whether a
+-- generation edited an uploaded photo or started from text alone
+ALTER TABLE public.generations
+  ADD COLUMN prompt_search TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(prompt, ''))) STORED,
+  ADD COLUMN source_type TEXT
+    GENERATED ALWAYS AS (
+      CASE WHEN reference_images @> '[{"role": "subject"}]'::jsonb THEN 'edit' ELSE 'text' END
+    ) STORED;
+
+CREATE INDEX idx_generations_prompt_search ON public.generations USING GIN (prompt_search);
+
+-- Newest-first paging filtered by the common gallery filters
+CREATE INDEX idx_generations_user_created ON public.generations(user_id, created_at DESC, id DESC);
@@ -0,0 +1,70 @@
+-- Reviewing generations: a favourite flag, a 1-5 rating and free-form tags,
+-- set by the owner from the gallery
+ALTER TABLE public.generations
+  ADD COLUMN favourite BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (cardinality(tags) <= 20 AND array_position(tags, '') IS NULL),
+  -- Prompts with case and spacing folded, so reruns of the same prompt
+  -- template group together
+  ADD COLUMN prompt_key TEXT
+    GENERATED ALWAYS AS (lower(regexp_replace(btrim(prompt), '\s+', ' ', 'g'))) STORED;
+
+CREATE INDEX idx_generations_favourite ON public.generations(user_id, created_at DESC) WHERE favourite;
+CREATE INDEX idx_generations_tags ON public.generations USING GIN (tags);
+
+-- Owners may update their generations, but only the review columns; the rest
+-- is written by the edge functions with the service role
+CREATE POLICY "Users can review their own generations"
+  ON public.generations FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON public.generations FROM anon, authenticated;
+GRANT UPDATE (favourite, rating, tags) ON public.generations TO authenticated;
+
+-- The user's tags with how often each is used, most used first, for
+-- autocomplete and the gallery's tag filter
+CREATE OR REPLACE FUNCTION public.get_generation_tags()
+RETURNS TABLE (tag TEXT, uses BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT tag, count(*) AS uses
+  FROM public.generations, unnest(tags) AS tag
+  WHERE user_id = auth.uid()
+  GROUP BY tag
+  ORDER BY uses DESC, tag;
+$$;
+
+-- Ratings per style and per prompt, for analysing which ones work. RLS on
+-- generations applies through security_invoker, so each user sees their own.
+CREATE VIEW public.generation_ratings_by_style
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  style,
+  count(*) AS generations,
+  count(rating) AS rated,
+  round(avg(rating), 2) AS average_rating,
+  count(*) FILTER (WHERE favourite) AS favourites
+FROM public.generations
+WHERE status = 'completed'
+GROUP BY user_id, style;
+
+CREATE VIEW public.generation_ratings_by_prompt
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  prompt_key,
+  min(prompt) AS prompt,
+  array_agg(DISTINCT style) AS styles,
+  count(*) AS generations,
+  count(rating) AS rated,
+  round(avg(rating), 2) AS average_rating,
+  count(*) FILTER (WHERE favourite) AS favourites
+FROM public.generations
+WHERE status = 'completed'
+GROUP BY user_id, prompt_key;
@@ -0,0 +1,24 @@
+-- Custom style reference images are read with the service role when a style
+-- is used, so they must stay inside the owner's styles folder
+UPDATE public.custom_styles
+SET reference_image_path = NULL
+WHERE reference_image_path IS NOT NULL
+  AND (reference_image_path NOT LIKE owner_id::text || '/styles/%' OR reference_image_path LIKE '%..%');
+
+ALTER TABLE public.custom_styles
+  ADD CONSTRAINT custom_styles_reference_image_path_check
+    CHECK (
+      reference_image_path IS NULL
+      OR (reference_image_path LIKE owner_id::text || '/styles/%' AND reference_image_path NOT LIKE '%..%')
+    );
+
+-- Owners can only move a style into a workspace they belong to
+DROP POLICY "Users can update their own custom styles" ON public.custom_styles;
+
+CREATE POLICY "Users can update their own custom styles"
+  ON public.custom_styles FOR UPDATE
+  USING (auth.uid() = owner_id)
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND (workspace_id IS NULL OR public.is_workspace_member(workspace_id, auth.uid()))
+  );
@@ -0,0 +1,20 @@
+-- Clients only create the pending row; generate-image charges for it, stores
+-- its inputs and queues it. Without these limits a client could insert a row
+-- straight into the queue, with its own inputs and no charge.
+
+-- Everything else on the row keeps its default
+REVOKE INSERT ON public.generations FROM anon, authenticated;
+GRANT INSERT (id, user_id, batch_id, prompt, style, status) ON public.generations TO authenticated;
+
+DROP POLICY "Users can create their own generations" ON public.generations;
+
+CREATE POLICY "Users can create their own generations"
+  ON public.generations FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND (
+      batch_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.generation_batches b WHERE b.id = batch_id AND b.user_id = auth.uid())
+    )
+  );
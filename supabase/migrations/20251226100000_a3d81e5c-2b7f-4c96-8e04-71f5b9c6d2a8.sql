@@ -0,0 +1,49 @@
+-- Fails a running job and refunds it in one transaction, so a job can't end
+-- failed and still charged. Returns false when the job is no longer running,
+-- e.g. it was cancelled (and refunded) meanwhile.
+CREATE OR REPLACE FUNCTION public.fail_generation(
+  _generation_id UUID,
+  _error_code TEXT,
+  _error_message TEXT,
+  _resolved_request JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.generations
+  SET
+    status = 'failed',
+    error_code = _error_code,
+    error_message = _error_message,
+    resolved_request = _resolved_request,
+    finished_at = NOW()
+  WHERE id = _generation_id AND status = 'running';
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM public.refund_generation_credit(_generation_id);
+  RETURN true;
+END;
+$$;
+
+-- Credits still held for a generation: its charge less any refund. The worker
+-- only runs jobs that have been paid for.
+CREATE OR REPLACE FUNCTION public.generation_charge_outstanding(_generation_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT -COALESCE(SUM(delta), 0)::INTEGER
+  FROM public.credit_ledger
+  WHERE generation_id = _generation_id AND reason IN ('generation', 'generation_refund');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_generation(UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generation_charge_outstanding(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,34 @@
+-- A generation can't be its own parent, and lineage lookups stop at cycles
+-- instead of recursing forever
+UPDATE public.generations SET parent_id = NULL WHERE parent_id = id;
+
+ALTER TABLE public.generations
+  ADD CONSTRAINT generations_parent_not_self_check CHECK (parent_id <> id);
+
+-- Same as before, walking ids with the path so far and never revisiting one
+CREATE OR REPLACE FUNCTION public.get_generation_lineage(_generation_id UUID)
+RETURNS SETOF public.generations
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT g.id, g.parent_id, ARRAY[g.id] AS path
+    FROM generations g WHERE g.id = _generation_id
+    UNION ALL
+    SELECT p.id, p.parent_id, a.path || p.id
+    FROM generations p JOIN ancestors a ON p.id = a.parent_id
+    WHERE p.id <> ALL (a.path)
+  ),
+  descendants AS (
+    SELECT c.id, ARRAY[_generation_id, c.id] AS path
+    FROM generations c WHERE c.parent_id = _generation_id
+    UNION ALL
+    SELECT c.id, d.path || c.id
+    FROM generations c JOIN descendants d ON c.parent_id = d.id
+    WHERE c.id <> ALL (d.path)
+  )
+  SELECT g.* FROM generations g
+  WHERE g.id IN (SELECT id FROM ancestors UNION SELECT id FROM descendants);
+$$;
@@ -0,0 +1,38 @@
+-- Deletes a generation and returns the stored objects it leaves unused: its
+-- image, and any reference images or mask no other generation still points
+-- at (batch members share them). The gallery only has some rows loaded, so it
+-- can't tell on its own. Runs as the caller, so only their own rows count.
+CREATE OR REPLACE FUNCTION public.delete_generation(_generation_id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted public.generations%ROWTYPE;
+  _unused TEXT[];
+BEGIN
+  DELETE FROM public.generations WHERE id = _generation_id RETURNING * INTO _deleted;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(array_agg(stored.path), '{}') INTO _unused
+  FROM (
+    SELECT _deleted.storage_path AS path
+    UNION
+    SELECT _deleted.mask_path
+    UNION
+    SELECT reference->>'path' FROM jsonb_array_elements(_deleted.reference_images) AS reference
+  ) stored
+  WHERE stored.path IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.generations g
+      WHERE g.storage_path = stored.path
+        OR g.mask_path = stored.path
+        OR g.reference_images @> jsonb_build_array(jsonb_build_object('path', stored.path))
+    );
+
+  RETURN _unused;
+END;
+$$;
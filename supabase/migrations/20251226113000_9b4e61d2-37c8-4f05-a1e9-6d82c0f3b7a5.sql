@@ -0,0 +1,6 @@
+-- Realtime filters INSERT and UPDATE events on the new row, so the gallery's
+-- user_id filter never needed the old one. DELETE events can't be filtered
+-- under RLS and carry only the primary key whatever the replica identity, so
+-- full row images only doubled the WAL written for this table, whose legacy
+-- rows still hold base64 images.
+ALTER TABLE public.generations REPLICA IDENTITY DEFAULT;
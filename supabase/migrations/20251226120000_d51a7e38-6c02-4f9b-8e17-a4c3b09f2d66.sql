@@ -0,0 +1,5 @@
+-- Prompt and model a reproduction replays from its original's resolved
+-- request, so the worker doesn't rebuild them from the style and provider as
+-- they are now. Written by generate-image after checking it against the
+-- original; clients can't insert or update it.
+ALTER TABLE public.generations ADD COLUMN replay JSONB;